@@ -0,0 +1,123 @@
+/**
+ * Homebridge Config UI X server for the custom settings page.
+ * Runs a one-off login with the credentials from the form, lists the account's
+ * devices and waits for the first status payload of each to read its areas and zones.
+ * Uses the compiled plugin in ../dist, so the plugin must be built.
+ */
+const fs = require("fs-extra");
+const os = require("os");
+const path = require("path");
+const { HomebridgePluginUiServer, RequestError } = require("@homebridge/plugin-ui-utils");
+const { Auth } = require("../dist/auth");
+const { TokenStore } = require("../dist/tokenStore");
+const { Olarm } = require("../dist/olarm");
+const { MqttSupervisor } = require("../dist/mqttSupervisor");
+const { resolveEndpoints } = require("../dist/endpoints");
+
+// How long to wait for a device's first status payload
+const STATUS_TIMEOUT_MS = 15 * 1000;
+
+// Plugin classes expect a Homebridge logger, send everything to the UI server's console
+const log = {
+	info: (...args) => console.log("[Olarm UI]", ...args),
+	success: (...args) => console.log("[Olarm UI]", ...args),
+	warn: (...args) => console.warn("[Olarm UI]", ...args),
+	error: (...args) => console.error("[Olarm UI]", ...args),
+	debug: () => undefined,
+	log: (level, ...args) => console.log("[Olarm UI]", ...args),
+};
+
+class OlarmUiServer extends HomebridgePluginUiServer {
+	constructor() {
+		super();
+		this.onRequest("/discover", this.discover.bind(this));
+		this.ready();
+	}
+
+	/**
+	 * Log in and return the devices with their areas and zones.
+	 * Tokens go to a temporary file so the running plugin's tokens are left alone.
+	 */
+	async discover({ userEmailPhone, userPass, endpoints }) {
+		if (!userEmailPhone || !userPass) {
+			throw new RequestError("Enter your Olarm email/phone and password first.", { status: 400 });
+		}
+
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "olarm-ui-"));
+		const resolvedEndpoints = resolveEndpoints(endpoints);
+		const auth = new Auth({
+			userEmailPhone: userEmailPhone,
+			userPass: userPass,
+			log: log,
+			endpoints: resolvedEndpoints,
+			tokenStore: new TokenStore({ log: log, filePath: path.join(tempDir, "tokens.json"), userEmailPhone: userEmailPhone }),
+		});
+		const supervisors = [];
+
+		try {
+			try {
+				await auth.initialize();
+			} catch (error) {
+				throw new RequestError(`Login failed: ${error instanceof Error ? error.message : String(error)}`, { status: 401 });
+			}
+			auth.stop();
+
+			const devices = auth.getDevices();
+			const mqttClients = new Map();
+			const received = new Set();
+			let notify = () => undefined;
+			const olarm = new Olarm({
+				devices: devices,
+				log: log,
+				mqttClients: mqttClients,
+				onStateUpdate: () => notify(),
+			});
+
+			// Wait until every device has reported areas, or the timeout passes
+			const allReported = new Promise((resolve) => {
+				notify = () => {
+					olarm.getAreas().forEach(area => received.add(area.deviceId));
+					if (devices.every(device => received.has(device.id))) {
+						resolve();
+					}
+				};
+			});
+
+			for (const device of devices) {
+				const supervisor = new MqttSupervisor({
+					device: device,
+					auth: auth,
+					log: log,
+					endpoints: resolvedEndpoints,
+					mqttClients: mqttClients,
+					// Its own client id, so the running plugin's connection is not kicked off
+					clientId: `native-app-oauth-${device.IMEI}-config-ui`,
+					onMessage: (deviceId, topic, message) => olarm.processMqttMessage(deviceId, topic, message),
+				});
+				supervisors.push(supervisor);
+				supervisor.start().catch((error) => log.warn(`MQTT for ${device.IMEI} failed:`, error.message));
+			}
+
+			if (devices.length > 0) {
+				await Promise.race([allReported, new Promise(resolve => setTimeout(resolve, STATUS_TIMEOUT_MS))]);
+			}
+
+			const areas = olarm.getAreas();
+			const zones = olarm.getZones();
+			return devices.map(device => ({
+				id: device.id,
+				IMEI: device.IMEI,
+				name: device.name || device.IMEI,
+				online: received.has(device.id),
+				areas: areas.filter(a => a.deviceId === device.id).map(a => ({ areaNumber: a.areaNumber, areaName: a.areaName })),
+				zones: zones.filter(z => z.deviceId === device.id).map(z => ({ zoneNumber: z.zoneNumber, zoneName: z.zoneName, zoneType: z.zoneType })),
+			}));
+		} finally {
+			supervisors.forEach(supervisor => supervisor.stop());
+			auth.stop();
+			await fs.remove(tempDir);
+		}
+	}
+}
+
+(() => new OlarmUiServer())();
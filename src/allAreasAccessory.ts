@@ -0,0 +1,275 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { areaActionToState } from "./commandTracker";
+import { AllAreasMode, HomeKitArmMode, OlarmArea, OlarmAreaAction, OlarmAreaGroup, OlarmAreaState } from "./types";
+
+/**
+ * All Areas Accessory
+ * A SecuritySystem that drives every area of a device at once. Each area gets the
+ * action its own mode mapping has for the chosen HomeKit mode, unless the area is
+ * excluded from that mode in config. The current state is armed only when all
+ * included areas are armed, triggered when any area is, and disarmed otherwise.
+ */
+export class OlarmAllAreasPlatformAccessory {
+	private service: Service;
+	private targetValue: number;
+	// The last arming mode set from HomeKit, checked first when several modes match
+	private lastMode: HomeKitArmMode | null = null;
+	// Set when an area did not confirm the last command, cleared by the next area state change or status payload
+	private commandFailed = false;
+	private commandFailedAt = 0;
+	private pending = false;
+	private areaStates: string; // To tell area state changes from other updates
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		const group = this.accessory.context.allAreas as OlarmAreaGroup;
+
+		this.platform.log.debug(`Initializing All Areas accessory: ${this.accessory.displayName} (${group.areas.length} areas)`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm All Areas")
+			.setCharacteristic(this.platform.Characteristic.SerialNumber, `${group.deviceId}-ALL`);
+
+		this.service =
+			this.accessory.getService(this.platform.Service.SecuritySystem) ||
+			this.accessory.addService(this.platform.Service.SecuritySystem, this.accessory.displayName);
+
+		this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+		this.service
+			.getCharacteristic(this.platform.Characteristic.SecuritySystemCurrentState)
+			.onGet(this.handleCurrentStateGet.bind(this));
+
+		this.service
+			.getCharacteristic(this.platform.Characteristic.SecuritySystemTargetState)
+			.setProps({ validValues: this.getValidTargetValues() })
+			.onGet(this.handleTargetStateGet.bind(this))
+			.onSet(this.handleTargetStateSet.bind(this));
+
+		this.targetValue = this.getTargetForCurrent();
+		this.areaStates = this.describeAreaStates(group);
+		this.updateCharacteristics();
+	}
+
+	private describeAreaStates(group: OlarmAreaGroup): string {
+		return group.areas.map(a => `${a.areaNumber}=${a.areaState}`).join(", ");
+	}
+
+	private get areas(): OlarmArea[] {
+		return (this.accessory.context.allAreas as OlarmAreaGroup).areas.filter(a => !a.hidden);
+	}
+
+	// --- Method called by the platform when MQTT state changes ---
+	public updateStateFromExternal(group: OlarmAreaGroup) {
+		const areaStates = this.describeAreaStates(group);
+		this.platform.log.debug(`[${this.accessory.displayName}] Area states: ${areaStates}`);
+		// Only a state change settles the target, a pending command keeps its own
+		if (areaStates !== this.areaStates && !this.pending) {
+			this.commandFailed = false;
+			this.targetValue = this.getTargetForCurrent();
+		}
+		this.areaStates = areaStates;
+		this.updateCharacteristics();
+	}
+
+	// Areas that take part in a mode: visible, not excluded and with an action for the mode
+	private getParticipants(mode: AllAreasMode): OlarmArea[] {
+		return this.areas.filter(area =>
+			!(area.excludeFromAllAreas ?? []).includes(mode) && (mode === "off" || area.modes?.[mode])
+		);
+	}
+
+	private getActionFor(area: OlarmArea, mode: AllAreasMode): OlarmAreaAction {
+		return mode === "off" ? OlarmAreaAction.Disarm : area.modes[mode]!;
+	}
+
+	private isInModeState(area: OlarmArea, mode: AllAreasMode): boolean {
+		if (mode === "off") {
+			return area.areaState === OlarmAreaState.Disarmed || area.areaState === OlarmAreaState.NotReady;
+		}
+		return area.areaState === areaActionToState(this.getActionFor(area, mode));
+	}
+
+	// The arming mode all participating areas are in, if any
+	private getArmedMode(): HomeKitArmMode | null {
+		const candidates = [this.lastMode, HomeKitArmMode.Away, HomeKitArmMode.Home, HomeKitArmMode.Night];
+		for (const mode of candidates) {
+			if (!mode) {
+				continue;
+			}
+			const participants = this.getParticipants(mode);
+			if (participants.length > 0 && participants.every(area => this.isInModeState(area, mode))) {
+				return mode;
+			}
+		}
+		return null;
+	}
+
+	private getCurrentValue(): number {
+		const CurrentState = this.platform.Characteristic.SecuritySystemCurrentState;
+		if (this.areas.some(area => area.areaState === OlarmAreaState.Triggered)) {
+			return CurrentState.ALARM_TRIGGERED;
+		}
+		switch (this.getArmedMode()) {
+			case HomeKitArmMode.Home: return CurrentState.STAY_ARM;
+			case HomeKitArmMode.Away: return CurrentState.AWAY_ARM;
+			case HomeKitArmMode.Night: return CurrentState.NIGHT_ARM;
+			default: return CurrentState.DISARMED;
+		}
+	}
+
+	private getTargetForCurrent(): number {
+		const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+		switch (this.getArmedMode()) {
+			case HomeKitArmMode.Home: return TargetState.STAY_ARM;
+			case HomeKitArmMode.Away: return TargetState.AWAY_ARM;
+			case HomeKitArmMode.Night: return TargetState.NIGHT_ARM;
+			default: return TargetState.DISARM;
+		}
+	}
+
+	private toMode(value: number): AllAreasMode | null {
+		const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+		switch (value) {
+			case TargetState.STAY_ARM: return HomeKitArmMode.Home;
+			case TargetState.AWAY_ARM: return HomeKitArmMode.Away;
+			case TargetState.NIGHT_ARM: return HomeKitArmMode.Night;
+			case TargetState.DISARM: return "off";
+			default: return null;
+		}
+	}
+
+	// Offer a mode when at least one area takes part in it
+	private getValidTargetValues(): number[] {
+		const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+		return [TargetState.STAY_ARM, TargetState.AWAY_ARM, TargetState.NIGHT_ARM, TargetState.DISARM]
+			.filter(value => value === TargetState.DISARM || this.getParticipants(this.toMode(value)!).length > 0);
+	}
+
+	private updateCharacteristics() {
+		this.service.updateCharacteristic(this.platform.Characteristic.SecuritySystemCurrentState, this.getCurrentValue());
+		this.service.updateCharacteristic(this.platform.Characteristic.SecuritySystemTargetState, this.targetValue);
+	}
+
+	async handleCurrentStateGet(): Promise<CharacteristicValue> {
+		// Stale like the area accessories when the panel has gone quiet
+		const group = this.accessory.context.allAreas as OlarmAreaGroup;
+		const lastPayloadAt = this.platform.olarm?.getLastPayloadAt(group.deviceId);
+		if (this.commandFailed && lastPayloadAt !== undefined && lastPayloadAt > this.commandFailedAt) {
+			// The panel has reported since, it is responding even though the states did not change
+			this.commandFailed = false;
+		}
+		if (this.commandFailed || this.platform.olarm?.isStateStale(group.deviceId)) {
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+		return this.getCurrentValue();
+	}
+
+	async handleTargetStateGet(): Promise<CharacteristicValue> {
+		return this.targetValue;
+	}
+
+	async handleTargetStateSet(value: CharacteristicValue) {
+		const mode = this.toMode(value as number);
+		const participants = mode ? this.getParticipants(mode) : [];
+		if (!mode || participants.length === 0) {
+			this.platform.log.warn(`[${this.accessory.displayName}] SET TargetState: No areas take part in ${value}, ignoring.`);
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+		}
+
+		// Areas already in the requested state are left alone
+		const toChange = participants.filter(area => !this.isInModeState(area, mode));
+		const olarm = this.platform.olarm!;
+
+		// The panel refuses to arm with open zones unless force arm may bypass them
+		const refusals = toChange
+			.map(area => ({ area: area, refusal: olarm.getAreaCommandRefusal(area, this.getActionFor(area, mode)) }))
+			.filter(r => r.refusal !== null);
+		if (refusals.length > 0) {
+			refusals.forEach(({ area, refusal }) => {
+				this.platform.log.warn(`[${this.accessory.displayName}] SET TargetState: Area ${area.areaNumber} (${area.areaName}): ${refusal}`);
+			});
+			this.service.updateCharacteristic(this.platform.Characteristic.SecuritySystemTargetState, this.targetValue);
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+		}
+
+		this.platform.log.info(`[${this.accessory.displayName}] SET TargetState: ${mode} for areas ${participants.map(a => a.areaNumber).join(", ")}` +
+			(toChange.length < participants.length ? ` (${participants.length - toChange.length} already there)` : ""));
+
+		this.targetValue = value as number;
+		this.commandFailed = false;
+		if (mode !== "off") {
+			this.lastMode = mode;
+		}
+		if (toChange.length === 0) {
+			return;
+		}
+
+		this.pending = true;
+		const confirmations: Promise<unknown>[] = [];
+		const failedToSend: OlarmArea[] = [];
+		await Promise.all(toChange.map(async (area) => {
+			const action = this.getActionFor(area, mode);
+			if (olarm.needsForceArm(area, action)) {
+				// Bypassing can take longer than HomeKit waits for a set, follow it up with the confirmations
+				const forced = olarm.sendAreaCommand(area, action).then((success) => {
+					if (!success) {
+						throw new Error(`Failed to force ${action} area ${area.areaNumber} (${area.areaName}).`);
+					}
+					return olarm.getAreaConfirmation(area);
+				});
+				// Handled once all commands are sent, don't let an early failure go unhandled until then
+				forced.catch(() => undefined);
+				confirmations.push(forced);
+				return;
+			}
+			const sent = olarm.sendAreaCommand(area, action);
+			const confirmation = olarm.getAreaConfirmation(area);
+			let success = false;
+			try {
+				success = await sent;
+			} catch (error) {
+				this.platform.log.error(`[${this.accessory.displayName}] Error sending command to area ${area.areaNumber}:`, error);
+			}
+			if (!success) {
+				failedToSend.push(area);
+			} else if (confirmation) {
+				confirmations.push(confirmation);
+			}
+		}));
+
+		if (failedToSend.length > 0) {
+			this.platform.log.error(`[${this.accessory.displayName}] Failed to send the command to area(s) ${failedToSend.map(a => a.areaNumber).join(", ")}.`);
+			this.revertTarget();
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+
+		const requestedTarget = this.targetValue;
+		Promise.all(confirmations).then(() => {
+			this.platform.log.debug(`[${this.accessory.displayName}] All areas confirmed ${mode}.`);
+			this.pending = false;
+		}).catch((error: Error) => {
+			this.platform.log.error(`[${this.accessory.displayName}] ${error.message}`);
+			if (this.targetValue !== requestedTarget) {
+				// Another command has moved the target on already
+				return;
+			}
+			this.commandFailed = true;
+			this.commandFailedAt = Date.now();
+			this.revertTarget();
+		});
+	}
+
+	private revertTarget() {
+		this.pending = false;
+		this.targetValue = this.getTargetForCurrent();
+		this.service.updateCharacteristic(this.platform.Characteristic.SecuritySystemTargetState, this.targetValue);
+	}
+}
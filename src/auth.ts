@@ -1,9 +1,26 @@
-import * as fs from 'fs-extra';
-import * as path from 'path';
-import * as os from 'os';
 import { Logger } from 'homebridge';
 import fetch, { Response } from 'node-fetch'; // Import Response type
 import { URLSearchParams } from 'url';
+import { EventEmitter } from 'events';
+import { DEFAULT_ENDPOINTS, OlarmEndpoints } from './endpoints';
+import { TokenStore } from './tokenStore';
+
+// Emitted with the new Tokens whenever a login or refresh succeeds
+export const TOKENS_CHANGED_EVENT = 'tokensChanged';
+
+// Refresh this long before the access token expires
+const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+// Refresh interval when the expiry is unknown
+const TOKEN_REFRESH_FALLBACK_MS = 60 * 60 * 1000;
+// Never refresh more often than this, even for tokens shorter-lived than the buffer
+const TOKEN_REFRESH_MIN_MS = 60 * 1000;
+// Retry backoff for failed background refreshes
+const TOKEN_RETRY_BASE_MS = 30 * 1000;
+const TOKEN_RETRY_MAX_MS = 30 * 60 * 1000;
+// Failed refreshes before falling back to a full login
+const TOKEN_REFRESH_ATTEMPTS_BEFORE_LOGIN = 3;
+// Longest delay setTimeout accepts
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 
 export interface Tokens {
@@ -14,9 +31,18 @@ export interface Tokens {
 	tokenExpiration: number | null;
 }
 
+export interface DeviceProfile {
+	zonesLabels?: string[];
+	zonesTypes?: number[];
+	pgmLabels?: string[];
+	ukeysLabels?: string[];
+}
+
 export interface Device {
 	id: string;
 	IMEI: string;
+	name?: string;
+	profile?: DeviceProfile; // Labels configured in the Olarm app
 	// Add other device properties as needed
 }
 
@@ -24,12 +50,15 @@ interface authProps {
 	userEmailPhone: string;
 	userPass: string;
 	log: Logger;
+	endpoints?: OlarmEndpoints;
+	tokenStore: TokenStore;
 }
 
-export class Auth {
+export class Auth extends EventEmitter {
 	private userEmailPhone: string;
 	private userPass: string;
 	private log: Logger;
+	private endpoints: OlarmEndpoints;
 
 	private userIndex: number | null = null;
 	private userId: string | null = null;
@@ -37,18 +66,22 @@ export class Auth {
 	private refreshToken: string | null = null;
 	private tokenExpiration: number | null = null;
 	private devices: Device[] = [];
-	private tokensFilePath: string;
-
-	constructor({userEmailPhone, userPass, log}: authProps) {
+	private tokenStore: TokenStore;
+	private forcedRefresh: Promise<void> | null = null;
+	private tokenRefresh: Promise<void> | null = null;
+	private refreshTimer: NodeJS.Timeout | null = null;
+	private refreshFailures = 0;
+	private schedulerRunning = false;
+
+	constructor({userEmailPhone, userPass, log, endpoints, tokenStore}: authProps) {
+		super();
 		this.userEmailPhone = userEmailPhone;
 		this.userPass = userPass;
 		this.log = log;
+		this.endpoints = endpoints ?? DEFAULT_ENDPOINTS;
 
-		// Set tokens file path (e.g., ~/.olarmws-plugin/tokens.json)
-		this.tokensFilePath = path.join(os.homedir(), '.olarmws-plugin', 'tokens.json');
-
-		// Ensure directory exists
-		fs.ensureDirSync(path.dirname(this.tokensFilePath));
+		// Token file for this account, see TokenStore
+		this.tokenStore = tokenStore;
 	}
 
 	public async initialize() {
@@ -73,9 +106,20 @@ export class Auth {
 		}
 		this.log.debug("Auth: Fetching devices...");
 		await this.fetchDevices();
+		this.schedulerRunning = true;
+		this.scheduleTokenRefresh();
 		this.log.info("Auth: Initialization complete.");
 	}
 
+	// Stop the background token refresh, called on shutdown
+	public stop() {
+		this.schedulerRunning = false;
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+	}
+
 	public getTokens(): Tokens {
 		return {
 			userIndex: this.userIndex,
@@ -107,7 +151,7 @@ export class Auth {
 		let response: Response;
 		try {
 			response = await fetch(
-				'https://auth.olarm.com/api/v4/oauth/login/mobile',
+				`${this.endpoints.authUrl}/api/v4/oauth/login/mobile`,
 				{
 					method: 'POST',
 					headers: {
@@ -138,6 +182,7 @@ export class Auth {
 			this.log.debug(`Auth: Access token expires around: ${this.tokenExpiration ? new Date(this.tokenExpiration).toISOString() : 'N/A'}`);
 			await this.fetchUserIndex(); // Fetch user index after successful login
 			await this.saveTokensToStorage();
+			this.onTokensChanged();
 		} catch (error) {
 			this.log.error(`Auth: Error processing login response: ${error instanceof Error ? error.message : String(error)}`);
 			throw new Error("Auth: Failed to process login response");
@@ -150,7 +195,7 @@ export class Auth {
 			this.log.error("Auth: Cannot fetch user index without an access token.");
 			throw new Error("Auth: Cannot fetch user index, access token missing");
 		}
-		const url = `https://auth.olarm.com/api/v4/oauth/federated-link-existing?oat=${this.accessToken}`;
+		const url = `${this.endpoints.authUrl}/api/v4/oauth/federated-link-existing?oat=${this.accessToken}`;
 		const formData = new URLSearchParams({
 			userEmailPhone: this.userEmailPhone,
 			userPass: this.userPass,
@@ -197,7 +242,7 @@ export class Auth {
 			throw new Error('Auth: Access token or user index is missing for fetching devices');
 		}
 
-		const url = `https://api-legacy.olarm.com/api/v2/users/${this.userIndex}`;
+		const url = `${this.endpoints.apiUrl}/api/v2/users/${this.userIndex}`;
 		let response: Response;
 		try {
 			response = await fetch(url, {
@@ -232,24 +277,34 @@ export class Auth {
 			throw await this.handleFetchError("Fetch devices", response);
 		}
 
+		let data: any;
 		try {
-			const data = await response.json();
-			if (data && Array.isArray(data.devices)) {
-				this.devices = data.devices.map((device: any) => ({
-					id: device.id, // Assuming 'id' is the correct field from Olarm API
-					IMEI: device.IMEI,
-					// Map other necessary properties if needed
-				}));
-				this.log.info(`Auth: Successfully fetched ${this.devices.length} device(s).`);
-				this.log.debug(`Auth: Fetched devices: ${JSON.stringify(this.devices, null, 2)}`);
-			} else {
-				this.log.error("Auth: Unexpected response format when fetching devices:", data);
-				this.devices = [];
-			}
+			data = await response.json();
 		} catch (error) {
 			this.log.error(`Auth: Error processing devices response: ${error instanceof Error ? error.message : String(error)}`);
 			throw new Error("Auth: Failed to process devices response");
 		}
+		// Keep the known devices on a malformed response, a refresh would drop them all otherwise
+		if (!data || !Array.isArray(data.devices)) {
+			this.log.error("Auth: Unexpected response format when fetching devices:", data);
+			throw new Error("Auth: Unexpected response format when fetching devices");
+		}
+		this.devices = data.devices.map((device: any) => ({
+			id: device.id, // Assuming 'id' is the correct field from Olarm API
+			IMEI: device.IMEI,
+			name: device.deviceName,
+			profile: device.deviceProfile,
+			// Map other necessary properties if needed
+		}));
+		this.log.info(`Auth: Successfully fetched ${this.devices.length} device(s).`);
+		this.log.debug(`Auth: Fetched devices: ${JSON.stringify(this.devices, null, 2)}`);
+	}
+
+	// Fetch the device list again, e.g. to pick up a communicator added to the account
+	public async refreshDevices(): Promise<Device[]> {
+		await this.ensureAccessToken();
+		await this.fetchDevices();
+		return this.getDevices();
 	}
 
 	// Add getters for userIndex and userId
@@ -266,9 +321,67 @@ export class Auth {
 		return [...this.devices];
 	}
 
-	private async refreshAccessToken() {
+	// Concurrent callers share one refresh, a refresh token must only be used once
+	private refreshAccessToken(): Promise<void> {
+		if (!this.tokenRefresh) {
+			this.tokenRefresh = this.requestTokenRefresh().finally(() => {
+				this.tokenRefresh = null;
+			});
+		}
+		return this.tokenRefresh;
+	}
+
+	// Holds the token file lock from reading the stored tokens until the new ones are written,
+	// another Homebridge instance sharing the file must not use the same refresh token meanwhile
+	private async requestTokenRefresh() {
 		this.log.info("Auth: Attempting to refresh access token...");
-		if (!this.refreshToken) {
+		let failure: Error | null = null;
+		await this.tokenStore.update(async (stored) => {
+			if (this.adoptStoredTokens(stored)) {
+				return null;
+			}
+			const refreshToken = this.refreshToken;
+			try {
+				return await this.refreshStoredTokens();
+			} catch (error) {
+				if (refreshToken === null || this.refreshToken !== null) {
+					throw error;
+				}
+				// The refresh token was refused and the tokens cleared, store that too
+				failure = error as Error;
+				return this.getTokens();
+			}
+		});
+		if (failure) {
+			throw failure;
+		}
+		this.onTokensChanged();
+	}
+
+	/**
+	 * Take over tokens another instance refreshed since they were loaded. Our refresh
+	 * token was used up by that refresh. Returns true if the stored access token is
+	 * still good, so no refresh is needed.
+	 */
+	private adoptStoredTokens(stored: Partial<Tokens> | null): boolean {
+		if (!stored || typeof stored.refreshToken !== 'string' || stored.refreshToken === this.refreshToken) {
+			return false;
+		}
+		this.log.info("Auth: Using the tokens another instance refreshed.");
+		this.accessToken = typeof stored.accessToken === 'string' ? stored.accessToken : null;
+		this.refreshToken = stored.refreshToken;
+		this.tokenExpiration = typeof stored.tokenExpiration === 'number' ? stored.tokenExpiration : null;
+		if (typeof stored.userIndex === 'number' && typeof stored.userId === 'string') {
+			this.userIndex = stored.userIndex;
+			this.userId = stored.userId;
+		}
+		return !!this.accessToken && !!this.tokenExpiration && Date.now() < this.tokenExpiration - TOKEN_EXPIRY_BUFFER_MS;
+	}
+
+	// Refresh with the current refresh token, returns the tokens to store
+	private async refreshStoredTokens(): Promise<Tokens> {
+		const refreshToken = this.refreshToken;
+		if (!refreshToken) {
 			this.log.error(
 				"Auth: No refresh token available. Cannot refresh. Need to log in again.",
 			);
@@ -279,13 +392,13 @@ export class Auth {
 		let response: Response;
 		try {
 			response = await fetch(
-				"https://auth.olarm.com/api/v4/oauth/refresh",
+				`${this.endpoints.authUrl}/api/v4/oauth/refresh`,
 				{
 					method: "POST",
 					headers: {
 						"Content-Type": "application/x-www-form-urlencoded",
 					},
-					body: new URLSearchParams({ ort: this.refreshToken }).toString(),
+					body: new URLSearchParams({ ort: refreshToken }).toString(),
 				}
 			);
 		} catch (error) {
@@ -295,10 +408,13 @@ export class Auth {
 
 
 		if (!response.ok) {
+			if (this.refreshToken !== refreshToken) {
+				// A login replaced the tokens meanwhile, they are still good
+				throw await this.handleFetchError("Token refresh (superseded)", response);
+			}
 			// If refresh fails (e.g., refresh token expired/invalid), clear tokens and throw
 			this.log.error("Auth: Token refresh failed. Clearing stored tokens.");
-			this.clearTokens(); // Clear invalid tokens
-			await this.saveTokensToStorage(); // Save the cleared state
+			this.clearTokens(); // Clear invalid tokens, the caller stores the cleared state
 			throw await this.handleFetchError("Token refresh", response);
 		}
 
@@ -315,18 +431,35 @@ export class Auth {
 				this.log.warn("Auth: User index/ID still missing after token refresh, attempting to fetch...");
 				await this.fetchUserIndex();
 			}
-
-			await this.saveTokensToStorage();
+			return this.getTokens();
 		} catch (error) {
 			this.log.error(`Auth: Error processing token refresh response: ${error instanceof Error ? error.message : String(error)}`);
 			throw new Error("Auth: Failed to process token refresh response");
 		}
 	}
 
-	private async ensureAccessToken() {
+	// Refresh the access token now, e.g. after the MQTT broker refused it. Falls back to a full login.
+	// Concurrent callers (one per device, ensureAccessToken()) share the same refresh.
+	public forceTokenRefresh(): Promise<void> {
+		if (!this.forcedRefresh) {
+			this.forcedRefresh = (async () => {
+				try {
+					await this.refreshAccessToken();
+				} catch (error) {
+					this.log.error("Auth: Token refresh failed. Attempting full login...", error);
+					await this.login();
+				}
+			})().finally(() => {
+				this.forcedRefresh = null;
+			});
+		}
+		return this.forcedRefresh;
+	}
+
+	public async ensureAccessToken() {
 		const now = Date.now();
 		// Check if token exists and hasn't expired (add a buffer, e.g., 5 minutes = 300,000 ms)
-		const buffer = 5 * 60 * 1000;
+		const buffer = TOKEN_EXPIRY_BUFFER_MS;
 		if (!this.accessToken || !this.tokenExpiration || now >= (this.tokenExpiration - buffer)) {
 			if (!this.accessToken) {
 				this.log.warn("Auth: Access token missing.");
@@ -335,23 +468,63 @@ export class Auth {
 			} else {
 				this.log.warn(`Auth: Access token expired or nearing expiration (Expires: ${new Date(this.tokenExpiration).toISOString()}, Now: ${new Date(now).toISOString()}). Attempting refresh...`);
 			}
-			try {
-				await this.refreshAccessToken();
-			} catch (error) {
-				this.log.error("Auth: Failed to refresh token during 'ensureAccessToken'. Attempting full login...", error);
-				// If refresh fails (e.g., bad refresh token), try a full login
-				await this.login();
-			}
+			// Shared with other callers, falls back to a full login if the refresh fails
+			await this.forceTokenRefresh();
 		} else {
 			this.log.debug("Auth: Existing access token is still valid.");
 		}
 	}
 
+	// Background refresh methods
+	private onTokensChanged() {
+		this.refreshFailures = 0;
+		this.emit(TOKENS_CHANGED_EVENT, this.getTokens());
+		this.scheduleTokenRefresh();
+	}
+
+	// Schedule the next refresh ahead of expiry, or after the given retry delay
+	private scheduleTokenRefresh(delay?: number) {
+		if (!this.schedulerRunning) {
+			return;
+		}
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+		}
+		if (delay === undefined) {
+			delay = this.tokenExpiration
+				? Math.max(TOKEN_REFRESH_MIN_MS, this.tokenExpiration - TOKEN_EXPIRY_BUFFER_MS - Date.now())
+				: TOKEN_REFRESH_FALLBACK_MS;
+		}
+		delay = Math.min(delay, MAX_TIMER_MS);
+		this.log.debug(`Auth: Next token refresh at ${new Date(Date.now() + delay).toISOString()}`);
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = null;
+			this.runScheduledRefresh();
+		}, delay);
+	}
+
+	private async runScheduledRefresh() {
+		try {
+			if (!this.refreshToken || this.refreshFailures >= TOKEN_REFRESH_ATTEMPTS_BEFORE_LOGIN) {
+				this.log.warn("Auth: Token refresh not possible, attempting full login...");
+				await this.login();
+			} else {
+				await this.refreshAccessToken();
+			}
+			// Success reschedules through onTokensChanged()
+		} catch (error) {
+			this.refreshFailures++;
+			const delay = Math.min(TOKEN_RETRY_MAX_MS, TOKEN_RETRY_BASE_MS * 2 ** (this.refreshFailures - 1));
+			this.log.error(`Auth: Background token refresh failed (attempt ${this.refreshFailures}), retrying in ${Math.round(delay / 1000)}s.`, error);
+			this.scheduleTokenRefresh(delay);
+		}
+	}
+
 	// Storage methods
 	private async loadTokensFromStorage() {
 		try {
-			if (await fs.pathExists(this.tokensFilePath)) {
-				const tokens: Partial<Tokens> = await fs.readJSON(this.tokensFilePath); // Use Partial<> for safety
+			const tokens = await this.tokenStore.load(); // Partial<> for safety
+			if (tokens) {
 				this.userIndex = typeof tokens.userIndex === 'number' ? tokens.userIndex : null;
 				this.userId = typeof tokens.userId === 'string' ? tokens.userId : null;
 				this.accessToken = typeof tokens.accessToken === 'string' ? tokens.accessToken : null;
@@ -359,7 +532,7 @@ export class Auth {
 				this.tokenExpiration = typeof tokens.tokenExpiration === 'number' ? tokens.tokenExpiration : null;
 				this.log.debug("Auth: Tokens successfully loaded from storage.");
 			} else {
-				this.log.debug("Auth: No tokens file found at:", this.tokensFilePath);
+				this.log.debug("Auth: No stored tokens found.");
 			}
 		} catch (error) {
 			this.log.error("Auth: Failed to load tokens from storage:", error);
@@ -376,8 +549,8 @@ export class Auth {
 			tokenExpiration: this.tokenExpiration,
 		};
 		try {
-			await fs.writeJSON(this.tokensFilePath, tokensToSave, { spaces: 2 }); // Pretty print JSON
-			this.log.debug("Auth: Tokens saved to storage at:", this.tokensFilePath);
+			await this.tokenStore.save(tokensToSave);
+			this.log.debug("Auth: Tokens saved to storage.");
 		} catch (error) {
 			this.log.error("Auth: Failed to save tokens to storage:", error);
 		}
@@ -0,0 +1,137 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as readline from "readline";
+import { Logger } from "homebridge";
+import { Device } from "./auth";
+
+export type CaptureDirection = "in" | "out";
+
+// One line of a capture file. Each file starts with the device it belongs to.
+export type CaptureEntry =
+	| { kind: "device"; ts: number; device: Device }
+	| { kind: "message"; ts: number; deviceId: string; direction: CaptureDirection; topic: string; message: string };
+
+// JSON keys whose values never end up in a capture
+const SECRET_KEYS = /^(password|userPass|oat|ort|accessToken|refreshToken|token|authorization)$/i;
+
+// Replace secret values in a JSON message, non-JSON messages are kept as is
+export function redactSecrets(message: string): string {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(message);
+	} catch (e) {
+		return message;
+	}
+	return JSON.stringify(parsed, (key, value) => (SECRET_KEYS.test(key) ? "[redacted]" : value));
+}
+
+/**
+ * Writes every inbound and outbound MQTT message to a JSONL file per device,
+ * so a bug report can include the exact traffic that led to it.
+ */
+export class MqttCapture {
+	private streams: Map<string, fs.WriteStream> = new Map();
+
+	constructor(
+		private readonly log: Logger,
+		private readonly directory: string,
+	) {
+		fs.ensureDirSync(this.directory);
+	}
+
+	// Open the capture file for a device, writing the device header first
+	public addDevice(device: Device) {
+		if (this.streams.has(device.id)) {
+			return;
+		}
+		const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const filePath = path.join(this.directory, `${device.id}-${stamp}.jsonl`);
+		const stream = fs.createWriteStream(filePath, { flags: "a" });
+		stream.on("error", (error) => this.log.error(`Capture: Failed to write ${filePath}:`, error));
+		this.streams.set(device.id, stream);
+		this.write(stream, { kind: "device", ts: Date.now(), device: device });
+		this.log.info(`Capture: Recording MQTT traffic for device ${device.IMEI} to ${filePath}`);
+	}
+
+	public record(deviceId: string, direction: CaptureDirection, topic: string, message: string) {
+		const stream = this.streams.get(deviceId);
+		if (!stream) {
+			return;
+		}
+		this.write(stream, {
+			kind: "message",
+			ts: Date.now(),
+			deviceId: deviceId,
+			direction: direction,
+			topic: topic,
+			message: redactSecrets(message),
+		});
+	}
+
+	public close() {
+		this.streams.forEach((stream) => stream.end());
+		this.streams.clear();
+	}
+
+	private write(stream: fs.WriteStream, entry: CaptureEntry) {
+		stream.write(JSON.stringify(entry) + "\n");
+	}
+}
+
+interface replayProps {
+	file: string;
+	speed: number; // 1 = original timing, 0 = as fast as possible
+	log: Logger;
+	onDevice: (device: Device) => void;
+	onMessage: (deviceId: string, topic: string, message: string) => void;
+	isStopped: () => boolean;
+}
+
+/**
+ * Feeds the inbound messages of a capture file back through the plugin,
+ * keeping the original gaps between them (scaled by speed).
+ * Outbound messages are only logged, there is no panel to send them to.
+ */
+export async function replayCapture({ file, speed, log, onDevice, onMessage, isStopped }: replayProps): Promise<number> {
+	const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+	let previousTs: number | null = null;
+	let replayed = 0;
+
+	for await (const line of lines) {
+		if (isStopped()) {
+			break;
+		}
+		if (!line.trim()) {
+			continue;
+		}
+
+		let entry: CaptureEntry;
+		try {
+			entry = JSON.parse(line);
+		} catch (e) {
+			log.warn(`Replay: Skipping malformed line: ${line.substring(0, 100)}`);
+			continue;
+		}
+
+		if (entry.kind === "device") {
+			onDevice(entry.device);
+			continue;
+		}
+
+		if (previousTs !== null && speed > 0) {
+			const delay = Math.max(0, entry.ts - previousTs) / speed;
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+		previousTs = entry.ts;
+
+		if (entry.direction === "out") {
+			log.info(`Replay: [${entry.deviceId}] outbound on ${entry.topic}: ${entry.message}`);
+			continue;
+		}
+		onMessage(entry.deviceId, entry.topic, entry.message);
+		replayed++;
+	}
+
+	lines.close();
+	return replayed;
+}
@@ -0,0 +1,38 @@
+import { API, Characteristic, WithUUID } from "homebridge";
+
+// Usable wherever HAP expects a characteristic type
+export type CustomCharacteristic = WithUUID<typeof Characteristic & (new () => Characteristic)>;
+
+// Custom characteristics show up in apps like Eve or Home+, not in the Home app
+
+/**
+ * "Alarm Source" on the area SecuritySystem service: the zone(s) that triggered
+ * the alarm, e.g. "Lounge PIR", empty while the area is not triggered.
+ */
+export function createAlarmSourceCharacteristic(api: API): CustomCharacteristic {
+	return createReadOnlyStringCharacteristic(api, "Alarm Source", "4A316F2B-8DBA-47A4-96C1-FC6931D12965");
+}
+
+// "Signal Path" on the connectivity sensor: "WiFi", "GSM" or "Unknown"
+export function createSignalPathCharacteristic(api: API): CustomCharacteristic {
+	return createReadOnlyStringCharacteristic(api, "Signal Path", "0C8B7E52-5D7A-4F0B-9E43-2B8A61D0C7F4");
+}
+
+// "Last Seen" on the connectivity sensor: when the communicator was last heard from
+export function createLastSeenCharacteristic(api: API): CustomCharacteristic {
+	return createReadOnlyStringCharacteristic(api, "Last Seen", "7F3D2A19-6B4E-4C85-A1D0-93E5F8B2C6A7");
+}
+
+function createReadOnlyStringCharacteristic(api: API, displayName: string, uuid: string): CustomCharacteristic {
+	return class extends api.hap.Characteristic {
+		static readonly UUID = uuid;
+
+		constructor() {
+			super(displayName, uuid, {
+				format: api.hap.Formats.STRING,
+				perms: [api.hap.Perms.PAIRED_READ, api.hap.Perms.NOTIFY],
+			});
+			this.value = this.getDefaultValue();
+		}
+	};
+}
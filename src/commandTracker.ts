@@ -0,0 +1,155 @@
+import { Logger } from "homebridge";
+import { OlarmArea, OlarmAreaAction, OlarmAreaState } from "./types";
+
+export enum CommandResult {
+	Confirmed = "confirmed",
+	Superseded = "superseded", // A newer command for the same area replaced this one
+}
+
+interface PendingCommand {
+	deviceId: string;
+	areaNumber: number;
+	action: OlarmAreaAction;
+	expectedState: OlarmAreaState;
+	sentAt: number;
+	cmdRecvBefore: number | null; // Last cmdRecv seen for the device when the command was sent
+	promise: Promise<CommandResult>;
+	resolve: (result: CommandResult) => void;
+	reject: (error: Error) => void;
+	timer: NodeJS.Timeout;
+}
+
+// The steady area state a successful action should end in
+export function areaActionToState(action: OlarmAreaAction): OlarmAreaState {
+	switch (action) {
+		case OlarmAreaAction.Arm: return OlarmAreaState.Armed;
+		case OlarmAreaAction.Stay: return OlarmAreaState.ArmedStay;
+		case OlarmAreaAction.Sleep: return OlarmAreaState.ArmedSleep;
+		case OlarmAreaAction.Disarm: return OlarmAreaState.Disarmed;
+	}
+}
+
+/**
+ * Tracks area commands until the panel confirms them.
+ * Each command is matched against the following alarmPayloads for its device,
+ * and rejected if the expected state is not reported within the timeout.
+ */
+export class CommandTracker {
+	private pending: Map<string, PendingCommand> = new Map();
+
+	constructor(
+		private readonly log: Logger,
+		private readonly timeoutMs: number,
+	) {}
+
+	// Start tracking a command, call before publishing so a fast reply is not missed
+	public track(area: OlarmArea, action: OlarmAreaAction, cmdRecvBefore: number | null): Promise<CommandResult> {
+		const key = this.getKey(area.deviceId, area.areaNumber);
+		this.settle(key, (command) => command.resolve(CommandResult.Superseded));
+
+		let resolve!: (result: CommandResult) => void;
+		let reject!: (error: Error) => void;
+		const promise = new Promise<CommandResult>((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+
+		// Nobody may be listening for the outcome, don't let a rejection go unhandled
+		promise.catch(() => undefined);
+
+		const timer = setTimeout(() => {
+			this.settle(key, (command) => command.reject(new Error(
+				`Panel did not confirm "${action}" for area ${area.areaNumber} (${area.areaName}) within ${Math.round(this.timeoutMs / 1000)}s`
+			)));
+		}, this.timeoutMs);
+
+		this.pending.set(key, {
+			deviceId: area.deviceId,
+			areaNumber: area.areaNumber,
+			action: action,
+			expectedState: areaActionToState(action),
+			sentAt: Date.now(),
+			cmdRecvBefore: cmdRecvBefore,
+			promise: promise,
+			resolve: resolve,
+			reject: reject,
+			timer: timer,
+		});
+
+		return promise;
+	}
+
+	// The confirmation promise of the pending command for an area, if any
+	public get(deviceId: string, areaNumber: number): Promise<CommandResult> | undefined {
+		return this.pending.get(this.getKey(deviceId, areaNumber))?.promise;
+	}
+
+	// Stop tracking a command that could not be sent
+	public cancel(deviceId: string, areaNumber: number, error: Error) {
+		this.settle(this.getKey(deviceId, areaNumber), (command) => command.reject(error));
+	}
+
+	// Stop tracking all commands for a device, e.g. when it was removed
+	public cancelDevice(deviceId: string, error: Error) {
+		for (const [key, command] of [...this.pending]) {
+			if (command.deviceId === deviceId) {
+				this.settle(key, (c) => c.reject(error));
+			}
+		}
+	}
+
+	/**
+	 * Match the areas of a new alarmPayload against pending commands for the device.
+	 * A command is confirmed once its area reports the expected state. If the panel
+	 * acknowledged the command (cmdRecv moved on) but the area is not ready, arming
+	 * cannot succeed and the command fails straight away.
+	 */
+	public processPayload(deviceId: string, cmdRecv: number | null, areas: OlarmArea[]) {
+		for (const [key, command] of this.pending) {
+			if (command.deviceId !== deviceId) {
+				continue;
+			}
+			const area = areas.find(a => a.areaNumber === command.areaNumber);
+			if (!area) {
+				continue;
+			}
+
+			// A disarmed area with open zones reports not ready
+			const disarmed = command.action === OlarmAreaAction.Disarm && area.areaState === OlarmAreaState.NotReady;
+			if (area.areaState === command.expectedState || disarmed) {
+				this.log.debug(`Command "${command.action}" for area ${command.areaNumber} on device ${deviceId} confirmed after ${Date.now() - command.sentAt}ms.`);
+				this.settle(key, (c) => c.resolve(CommandResult.Confirmed));
+			} else if (
+				area.areaState === OlarmAreaState.NotReady &&
+				command.action !== OlarmAreaAction.Disarm &&
+				cmdRecv !== null &&
+				cmdRecv !== command.cmdRecvBefore
+			) {
+				this.settle(key, (c) => c.reject(new Error(
+					`Panel rejected "${command.action}" for area ${command.areaNumber} (${area.areaName}): area is not ready`
+				)));
+			}
+		}
+	}
+
+	// Drop all pending commands, e.g. on shutdown
+	public clear() {
+		for (const key of [...this.pending.keys()]) {
+			this.settle(key, (command) => command.resolve(CommandResult.Superseded));
+		}
+	}
+
+	private settle(key: string, finish: (command: PendingCommand) => void) {
+		const command = this.pending.get(key);
+		if (!command) {
+			return;
+		}
+		clearTimeout(command.timer);
+		this.pending.delete(key);
+		finish(command);
+	}
+
+	private getKey(deviceId: string, areaNumber: number): string {
+		return `${deviceId}:${areaNumber}`;
+	}
+}
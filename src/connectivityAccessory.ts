@@ -0,0 +1,117 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { OlarmConnectivity, OlarmSignalPath } from "./types";
+
+// Subtypes, both services are contact sensors
+const ONLINE_SUBTYPE = "online";
+const GSM_SUBTYPE = "gsm";
+
+/**
+ * Connectivity Accessory
+ * One per device. A "Communicator" contact sensor is closed while the device is
+ * online and opens (with StatusFault set) when the cloud connection or the
+ * communicator drops, and a "GSM Backup" contact sensor opens while the
+ * communicator is on its cellular link. The signal path and the time the device
+ * was last heard from are custom characteristics on the first sensor.
+ */
+export class OlarmConnectivityPlatformAccessory {
+	private onlineService: Service;
+	private gsmService: Service;
+	private connectivity: OlarmConnectivity;
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		this.connectivity = this.accessory.context.connectivity as OlarmConnectivity;
+
+		this.platform.log.debug(`Initializing connectivity accessory: ${this.accessory.displayName}`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm Communicator")
+			.setCharacteristic(this.platform.Characteristic.SerialNumber, `${this.connectivity.deviceId}-COM`);
+
+		this.onlineService =
+			this.accessory.getServiceById(this.platform.Service.ContactSensor, ONLINE_SUBTYPE) ||
+			this.accessory.addService(this.platform.Service.ContactSensor, "Communicator", ONLINE_SUBTYPE);
+		this.onlineService
+			.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+			.onGet(async () => this.getOnlineContactState());
+		this.onlineService
+			.getCharacteristic(this.platform.Characteristic.StatusFault)
+			.onGet(async () => this.getStatusFault());
+		for (const characteristic of [this.platform.SignalPath, this.platform.LastSeen]) {
+			if (!this.onlineService.testCharacteristic(characteristic)) {
+				this.onlineService.addCharacteristic(characteristic);
+			}
+		}
+		this.onlineService
+			.getCharacteristic(this.platform.SignalPath)
+			.onGet(async () => this.getSignalPath());
+		this.onlineService
+			.getCharacteristic(this.platform.LastSeen)
+			.onGet(async () => this.getLastSeen());
+
+		this.gsmService =
+			this.accessory.getServiceById(this.platform.Service.ContactSensor, GSM_SUBTYPE) ||
+			this.accessory.addService(this.platform.Service.ContactSensor, "GSM Backup", GSM_SUBTYPE);
+		this.gsmService
+			.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+			.onGet(async () => this.getGsmContactState());
+
+		this.updateCharacteristics();
+	}
+
+	private updateCharacteristics() {
+		this.onlineService.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getOnlineContactState());
+		this.onlineService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.getStatusFault());
+		this.onlineService.updateCharacteristic(this.platform.SignalPath, this.getSignalPath());
+		this.onlineService.updateCharacteristic(this.platform.LastSeen, this.getLastSeen());
+		this.gsmService.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getGsmContactState());
+	}
+
+	// --- Method called by the platform when MQTT state changes ---
+	public updateStateFromExternal(connectivity: OlarmConnectivity) {
+		this.connectivity = connectivity;
+		this.updateCharacteristics();
+	}
+
+	// Closed while online, open when the device dropped off
+	private getOnlineContactState(): CharacteristicValue {
+		return this.connectivity.online
+			? this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED
+			: this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED;
+	}
+
+	private getStatusFault(): CharacteristicValue {
+		return this.connectivity.online
+			? this.platform.Characteristic.StatusFault.NO_FAULT
+			: this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+	}
+
+	// Open while on the cellular backup link
+	private getGsmContactState(): CharacteristicValue {
+		return this.connectivity.path === OlarmSignalPath.Gsm
+			? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+			: this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+	}
+
+	private getSignalPath(): CharacteristicValue {
+		switch (this.connectivity.path) {
+			case OlarmSignalPath.Wifi: return "WiFi";
+			case OlarmSignalPath.Gsm: return "GSM";
+			default: return "Unknown";
+		}
+	}
+
+	// Read from Olarm so it stays current between state changes
+	private getLastSeen(): CharacteristicValue {
+		const current = this.platform.olarm?.getConnectivity().find(c => c.deviceId === this.connectivity.deviceId);
+		const lastSeen = current?.lastSeen ?? this.connectivity.lastSeen;
+		return lastSeen ? new Date(lastSeen).toISOString() : "";
+	}
+}
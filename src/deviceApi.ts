@@ -0,0 +1,97 @@
+import { Logger } from "homebridge";
+import fetch, { Response } from "node-fetch";
+import { Auth } from "./auth";
+import { OlarmEndpoints } from "./endpoints";
+import { AlarmPayload, OlarmAreaAction } from "./types";
+
+const DEVICE_API_TIMEOUT_MS = 15 * 1000;
+
+interface deviceApiProps {
+	log: Logger;
+	endpoints: OlarmEndpoints;
+	getAuth: (deviceId: string) => Auth | undefined; // The account the device belongs to
+}
+
+/**
+ * Olarm's HTTP device API, used while the MQTT connection of a device is down.
+ * It reads the same state the broker publishes and sends the same commands,
+ * authenticated with the bearer token of the device's account.
+ */
+export class DeviceApi {
+	private log: Logger;
+	private endpoints: OlarmEndpoints;
+	private getAuth: (deviceId: string) => Auth | undefined;
+
+	constructor({ log, endpoints, getAuth }: deviceApiProps) {
+		this.log = log;
+		this.endpoints = endpoints;
+		this.getAuth = getAuth;
+	}
+
+	/**
+	 * Fetch the current state, shaped like an MQTT alarmPayload so it goes
+	 * through the same parsing.
+	 */
+	public async fetchState(deviceId: string): Promise<AlarmPayload> {
+		const response = await this.request(deviceId, "GET", `/api/v4/devices/${encodeURIComponent(deviceId)}`);
+		const body = await response.json();
+		if (!body?.deviceState || !Array.isArray(body.deviceState.areas)) {
+			throw new Error(`Device API: Unexpected state response for device ${deviceId}`);
+		}
+		return {
+			status: body.deviceStatus ?? "online",
+			type: "alarmPayload",
+			data: body.deviceState,
+			dataProlinks: null,
+			gsmStamp: body.gsmStamp ?? body.deviceState.gsmStamp,
+			wifiStamp: body.wifiStamp ?? body.deviceState.wifiStamp,
+		};
+	}
+
+	/**
+	 * Send a control command, e.g. ["arm", 1]. The HTTP API names area actions
+	 * "area-arm" and so on, other commands already carry their prefix.
+	 * Resolves false if the command was refused.
+	 */
+	public async sendAction(deviceId: string, data: (string | number)[]): Promise<boolean> {
+		const [action, index] = data;
+		const actionCmd = (Object.values(OlarmAreaAction) as unknown[]).includes(action) ? `area-${action}` : action;
+		try {
+			await this.request(deviceId, "POST", `/api/v4/devices/${encodeURIComponent(deviceId)}/actions`, {
+				actionCmd: actionCmd,
+				actionNum: index,
+			});
+			return true;
+		} catch (error) {
+			this.log.error(`Device API: Failed to send "${actionCmd}" to device ${deviceId}: ${error instanceof Error ? error.message : String(error)}`);
+			return false;
+		}
+	}
+
+	// Authenticated request, refreshing the token and retrying once when it is refused
+	private async request(deviceId: string, method: string, path: string, body?: unknown, retried = false): Promise<Response> {
+		const auth = this.getAuth(deviceId);
+		if (!auth) {
+			throw new Error(`Device API: No account for device ${deviceId}`);
+		}
+		await auth.ensureAccessToken();
+		const response = await fetch(`${this.endpoints.deviceApiUrl}${path}`, {
+			method: method,
+			headers: {
+				"Authorization": `Bearer ${auth.getTokens().accessToken}`,
+				...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+			},
+			body: body !== undefined ? JSON.stringify(body) : undefined,
+			timeout: DEVICE_API_TIMEOUT_MS,
+		});
+		if (response.status === 401 && !retried) {
+			this.log.warn(`Device API: ${method} ${path} returned 401, refreshing the access token...`);
+			await auth.forceTokenRefresh();
+			return this.request(deviceId, method, path, body, true);
+		}
+		if (!response.ok) {
+			throw new Error(`Device API: ${method} ${path} failed with HTTP ${response.status} ${response.statusText}`);
+		}
+		return response;
+	}
+}
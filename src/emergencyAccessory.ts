@@ -0,0 +1,104 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { OlarmEmergency } from "./types";
+
+// How long the switch stays on in HomeKit after raising the alarm
+const EMERGENCY_RESET_MS = 1000;
+
+/**
+ * Emergency Accessory
+ * A stateless switch that raises a panic, fire or medical alarm on the panel.
+ * With an interlock configured the first press only primes the switch and a
+ * second press within the configured time raises the alarm.
+ */
+export class OlarmEmergencyPlatformAccessory {
+	private service: Service;
+	private resetTimer: NodeJS.Timeout | null = null;
+	// Until when a second press raises the alarm, 0 when not primed
+	private primedUntil = 0;
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		const emergency = this.accessory.context.emergency as OlarmEmergency;
+
+		this.platform.log.debug(`Initializing emergency accessory: ${this.accessory.displayName}`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm Emergency")
+			.setCharacteristic(
+				this.platform.Characteristic.SerialNumber,
+				`${emergency.deviceId}-${emergency.action.toUpperCase()}`
+			);
+
+		this.service =
+			this.accessory.getService(this.platform.Service.Switch) ||
+			this.accessory.addService(this.platform.Service.Switch, this.accessory.displayName);
+
+		this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+		this.service
+			.getCharacteristic(this.platform.Characteristic.On)
+			.onGet(this.handleOnGet.bind(this))
+			.onSet(this.handleOnSet.bind(this));
+
+		this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+	}
+
+	// --- Method called by the platform when the config is reloaded ---
+	public updateStateFromExternal(emergency: OlarmEmergency) {
+		// Emergency switches carry no state
+		this.platform.log.debug(`[${this.accessory.displayName}] Emergency switch refreshed: ${emergency.action}`);
+	}
+
+	async handleOnGet(): Promise<CharacteristicValue> {
+		return this.resetTimer !== null;
+	}
+
+	async handleOnSet(value: CharacteristicValue) {
+		if (!(value as boolean)) {
+			// Nothing to do, the switch resets itself
+			return;
+		}
+
+		const emergency = this.accessory.context.emergency as OlarmEmergency;
+		if (emergency.confirmSeconds > 0 && Date.now() > this.primedUntil) {
+			this.primedUntil = Date.now() + emergency.confirmSeconds * 1000;
+			this.platform.log.warn(`[${this.accessory.displayName}] SET On: ${emergency.action} requested, press again within ${emergency.confirmSeconds}s to raise the alarm.`);
+			this.scheduleReset();
+			return;
+		}
+		this.primedUntil = 0;
+
+		this.platform.log.warn(`[${this.accessory.displayName}] SET On: raising ${emergency.action} alarm in area ${emergency.areaNumber}`);
+
+		let success = false;
+		try {
+			success = await this.platform.olarm!.triggerEmergency(emergency.deviceId, emergency.action, emergency.areaNumber);
+		} catch (error) {
+			this.platform.log.error(`[${this.accessory.displayName}] Error raising ${emergency.action} alarm:`, error);
+		}
+		if (!success) {
+			this.platform.log.error(`[${this.accessory.displayName}] Failed to raise ${emergency.action} alarm.`);
+			setImmediate(() => this.service.updateCharacteristic(this.platform.Characteristic.On, false));
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+
+		this.scheduleReset();
+	}
+
+	private scheduleReset() {
+		if (this.resetTimer) {
+			clearTimeout(this.resetTimer);
+		}
+		this.resetTimer = setTimeout(() => {
+			this.resetTimer = null;
+			this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+		}, EMERGENCY_RESET_MS);
+	}
+}
@@ -0,0 +1,29 @@
+/**
+ * Olarm cloud endpoints. All of them can be overridden in the platform config,
+ * e.g. to point the plugin at the bundled simulator (see src/simulator).
+ */
+export interface OlarmEndpoints {
+	authUrl: string; // OAuth login, refresh and user lookup
+	apiUrl: string; // Device list
+	deviceApiUrl: string; // v4 device API, the HTTP fallback while MQTT is down
+	mqttUrl: string; // MQTT over WebSocket broker
+}
+
+export const DEFAULT_ENDPOINTS: OlarmEndpoints = {
+	authUrl: "https://auth.olarm.com",
+	apiUrl: "https://api-legacy.olarm.com",
+	deviceApiUrl: "https://apiv4.olarm.co",
+	mqttUrl: "wss://mqtt-ws.olarm.com:443",
+};
+
+// Merge config overrides over the defaults, ignoring empty values and trailing slashes
+export function resolveEndpoints(overrides?: Partial<OlarmEndpoints>): OlarmEndpoints {
+	const endpoints = { ...DEFAULT_ENDPOINTS };
+	for (const key of Object.keys(endpoints) as (keyof OlarmEndpoints)[]) {
+		const value = overrides?.[key];
+		if (typeof value === "string" && value.trim()) {
+			endpoints[key] = value.trim().replace(/\/+$/, "");
+		}
+	}
+	return endpoints;
+}
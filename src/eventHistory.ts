@@ -0,0 +1,105 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Logger } from "homebridge";
+import { OlarmEvent, OlarmEventQuery } from "./types";
+
+const HISTORY_FILE = "olarm-history.jsonl";
+
+interface eventHistoryProps {
+	log: Logger;
+	directory: string;
+	maxFileSize: number; // bytes, the file is rotated once it grows past this
+	maxFiles: number; // Rotated files to keep, including the current one
+}
+
+/**
+ * Append-only log of alarm events, one JSON object per line.
+ * olarm-history.jsonl is rotated to .1, .2, ... when it gets too big,
+ * and the oldest file is dropped once there are maxFiles.
+ */
+export class EventHistory {
+	private log: Logger;
+	private directory: string;
+	private maxFileSize: number;
+	private maxFiles: number;
+	private currentSize: number;
+
+	constructor({ log, directory, maxFileSize, maxFiles }: eventHistoryProps) {
+		this.log = log;
+		this.directory = directory;
+		this.maxFileSize = maxFileSize;
+		this.maxFiles = Math.max(1, maxFiles);
+		fs.ensureDirSync(this.directory);
+		this.currentSize = fs.existsSync(this.getFilePath(0)) ? fs.statSync(this.getFilePath(0)).size : 0;
+	}
+
+	public record(event: OlarmEvent) {
+		const line = JSON.stringify(event) + "\n";
+		// Names may hold multi-byte characters, count bytes like the file size does
+		const size = Buffer.byteLength(line);
+		try {
+			if (this.currentSize > 0 && this.currentSize + size > this.maxFileSize) {
+				this.rotate();
+			}
+			fs.appendFileSync(this.getFilePath(0), line);
+			this.currentSize += size;
+		} catch (error) {
+			this.log.error("History: Failed to record event:", error);
+		}
+	}
+
+	// Matching events from all history files, newest first
+	public async query(query: OlarmEventQuery = {}): Promise<OlarmEvent[]> {
+		const types = query.type === undefined ? undefined : ([] as string[]).concat(query.type);
+		const matches: OlarmEvent[] = [];
+
+		// Oldest file first so events end up in chronological order
+		for (let index = this.maxFiles - 1; index >= 0; index--) {
+			const filePath = this.getFilePath(index);
+			if (!(await fs.pathExists(filePath))) {
+				continue;
+			}
+			const content = await fs.readFile(filePath, "utf8");
+			for (const line of content.split("\n")) {
+				if (!line.trim()) {
+					continue;
+				}
+				let event: OlarmEvent;
+				try {
+					event = JSON.parse(line);
+				} catch (e) {
+					this.log.debug(`History: Skipping malformed line in ${filePath}`);
+					continue;
+				}
+				if (
+					(query.deviceId === undefined || event.deviceId === query.deviceId) &&
+					(query.areaNumber === undefined || event.areaNumber === query.areaNumber) &&
+					(query.zoneNumber === undefined || event.zoneNumber === query.zoneNumber) &&
+					(types === undefined || types.includes(event.type)) &&
+					(query.from === undefined || event.timestamp >= query.from) &&
+					(query.to === undefined || event.timestamp <= query.to)
+				) {
+					matches.push(event);
+				}
+			}
+		}
+
+		matches.reverse();
+		return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+	}
+
+	private rotate() {
+		fs.removeSync(this.getFilePath(this.maxFiles - 1));
+		for (let index = this.maxFiles - 2; index >= 0; index--) {
+			if (fs.existsSync(this.getFilePath(index))) {
+				fs.renameSync(this.getFilePath(index), this.getFilePath(index + 1));
+			}
+		}
+		this.currentSize = 0;
+		this.log.debug("History: Rotated event history file.");
+	}
+
+	private getFilePath(index: number): string {
+		return path.join(this.directory, index === 0 ? HISTORY_FILE : `${HISTORY_FILE}.${index}`);
+	}
+}
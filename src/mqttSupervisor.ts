@@ -0,0 +1,297 @@
+import { Logger } from "homebridge";
+import mqtt, { IClientOptions, MqttClient } from "mqtt";
+import { Auth, Device, TOKENS_CHANGED_EVENT } from "./auth";
+import { OlarmEndpoints } from "./endpoints";
+import { MqttCapture } from "./capture";
+
+// Reconnect backoff, doubled on every failed attempt up to the maximum
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+interface mqttSupervisorProps {
+	device: Device;
+	auth: Auth;
+	log: Logger;
+	endpoints: OlarmEndpoints;
+	mqttClients: Map<string, MqttClient>;
+	capture?: MqttCapture;
+	clientId?: string; // Defaults to the client id of the Olarm app
+	statusInterval?: number; // ms without messages before the status is requested again, 0 to disable
+	onMessage: (deviceId: string, topic: string, message: string) => void;
+	onConnectionChange?: (deviceId: string, connected: boolean) => void; // Subscribed, or the connection closed
+}
+
+/**
+ * Keeps the MQTT connection for one device alive.
+ * mqtt.js auto-reconnect is disabled because it would keep retrying with the
+ * password (access token) from connect time. Instead every reconnect builds a new
+ * client with the current token, refreshing it first when the broker refused it,
+ * and waits an exponential backoff with jitter between attempts.
+ */
+export class MqttSupervisor {
+	private device: Device;
+	private auth: Auth;
+	private log: Logger;
+	private endpoints: OlarmEndpoints;
+	private mqttClients: Map<string, MqttClient>;
+	private capture: MqttCapture | undefined;
+	private clientId: string;
+	private statusInterval: number;
+	private onMessage: (deviceId: string, topic: string, message: string) => void;
+	private onConnectionChange: ((deviceId: string, connected: boolean) => void) | undefined;
+
+	private client: MqttClient | null = null;
+	private reconnectTimer: NodeJS.Timeout | null = null;
+	private attempt = 0;
+	private authRefused = false;
+	private stopped = true;
+	private watchdogTimer: NodeJS.Timeout | null = null;
+	private lastMessageAt = 0;
+	private lastStatusRequestAt = 0;
+	// Settles the promise returned by start() on the first connect or failure
+	private initialSettle: { resolve: () => void; reject: (error: Error) => void } | null = null;
+	// A token refreshed elsewhere (e.g. the Auth scheduler) makes a forced refresh unnecessary
+	private readonly onTokensChanged = () => {
+		this.authRefused = false;
+	};
+
+	constructor({ device, auth, log, endpoints, mqttClients, capture, clientId, statusInterval, onMessage, onConnectionChange }: mqttSupervisorProps) {
+		this.device = device;
+		this.auth = auth;
+		this.log = log;
+		this.endpoints = endpoints;
+		this.mqttClients = mqttClients;
+		this.capture = capture;
+		this.clientId = clientId ?? `native-app-oauth-${device.IMEI}`;
+		this.statusInterval = statusInterval ?? 0;
+		this.onMessage = onMessage;
+		this.onConnectionChange = onConnectionChange;
+	}
+
+	/**
+	 * Connects and subscribes. Resolves once subscribed, or rejects if the first
+	 * attempt fails, in which case reconnecting carries on in the background.
+	 */
+	public start(): Promise<void> {
+		if (this.stopped) {
+			this.stopped = false;
+			this.auth.on(TOKENS_CHANGED_EVENT, this.onTokensChanged);
+		}
+		if (this.client?.connected) {
+			this.log.info(`[MQTT ${this.device.IMEI}] Client already connected.`);
+			return Promise.resolve();
+		}
+		return new Promise((resolve, reject) => {
+			this.initialSettle = { resolve, reject };
+			if (!this.client && !this.reconnectTimer) {
+				this.connect();
+			}
+		});
+	}
+
+	public stop() {
+		this.stopped = true;
+		this.auth.off(TOKENS_CHANGED_EVENT, this.onTokensChanged);
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		if (this.watchdogTimer) {
+			clearInterval(this.watchdogTimer);
+			this.watchdogTimer = null;
+		}
+		this.teardownClient();
+	}
+
+	public isConnected(): boolean {
+		return this.client?.connected ?? false;
+	}
+
+	private connect() {
+		if (this.stopped) {
+			return;
+		}
+
+		const tokens = this.auth.getTokens();
+		if (!tokens.accessToken) {
+			this.log.error(`[MQTT ${this.device.IMEI}] No access token available for MQTT connection.`);
+			this.failInitial(new Error(`No access token for device ${this.device.IMEI}`));
+			this.authRefused = true;
+			this.scheduleReconnect();
+			return;
+		}
+
+		const clientId = this.clientId;
+		const mqttOptions: IClientOptions = {
+			username: "native_app",
+			password: tokens.accessToken,
+			clientId: clientId,
+			protocolVersion: 4,
+			keepalive: 60,
+			reconnectPeriod: 0, // Reconnects are handled by scheduleReconnect()
+			connectTimeout: 1000 * 10,
+			clean: true,
+		};
+
+		this.log.debug(`[MQTT ${this.device.IMEI}] Broker: ${this.endpoints.mqttUrl}, Options:`, { ...mqttOptions, password: '***' });
+
+		const client = mqtt.connect(this.endpoints.mqttUrl, mqttOptions);
+		this.client = client;
+		this.mqttClients.set(this.device.id, client);
+
+		client.on("connect", (connack) => {
+			this.log.info(`[MQTT ${this.device.IMEI}] Connected (ClientId: ${clientId}). Connack:`, connack);
+			this.attempt = 0;
+			this.authRefused = false;
+			this.subscribe(client);
+		});
+
+		client.on("error", (error: Error) => {
+			this.log.error(`[MQTT ${this.device.IMEI}] Client Error (ClientId: ${clientId}):`, error);
+			if (this.isAuthError(error)) {
+				this.log.error(`[MQTT ${this.device.IMEI}] Connection refused (Code ${(error as Error & { code?: number }).code}) - access token rejected, it will be refreshed before reconnecting.`);
+				this.authRefused = true;
+			}
+			this.failInitial(error);
+		});
+
+		client.on("message", (topic, message) => {
+			const messageString = message.toString();
+			this.lastMessageAt = Date.now();
+			this.log.debug(`[MQTT ${this.device.IMEI}] Message received on topic ${topic}: ${messageString.substring(0, 100)}...`);
+			this.capture?.record(this.device.id, "in", topic, messageString);
+			try {
+				this.onMessage(this.device.id, topic, messageString);
+			} catch (parseError) {
+				this.log.error(`[MQTT ${this.device.IMEI}] Error processing message on topic ${topic}:`, parseError);
+			}
+		});
+
+		client.on("offline", () => {
+			this.log.warn(`[MQTT ${this.device.IMEI}] Client is offline.`);
+		});
+
+		client.on("close", () => {
+			if (client !== this.client) {
+				// A client we already replaced or tore down
+				return;
+			}
+			this.log.info(`[MQTT ${this.device.IMEI}] Connection closed.`);
+			this.onConnectionChange?.(this.device.id, false);
+			this.failInitial(new Error(`MQTT connection closed for device ${this.device.IMEI}`));
+			this.scheduleReconnect();
+		});
+	}
+
+	private subscribe(client: MqttClient) {
+		const subTopic = `so/app/v1/${this.device.IMEI}`;
+		client.subscribe(subTopic, { qos: 1 }, (err, granted) => {
+			if (err) {
+				this.log.error(`[MQTT ${this.device.IMEI}] Failed to subscribe to topic ${subTopic}:`, err);
+				// Closing triggers a reconnect with a fresh client
+				client.end(true);
+				return;
+			}
+			this.log.info(`[MQTT ${this.device.IMEI}] Subscribed to topic: ${subTopic}. Granted:`, granted);
+			this.lastMessageAt = Date.now();
+			this.publishStatusRequest(client);
+			this.startWatchdog();
+			this.onConnectionChange?.(this.device.id, true);
+			this.initialSettle?.resolve();
+			this.initialSettle = null;
+		});
+	}
+
+	// Ask for the state again when the device has been quiet for the status interval
+	private startWatchdog() {
+		if (this.watchdogTimer || this.statusInterval <= 0) {
+			return;
+		}
+		this.watchdogTimer = setInterval(() => {
+			const client = this.client;
+			const now = Date.now();
+			if (!client?.connected || now - this.lastMessageAt < this.statusInterval || now - this.lastStatusRequestAt < this.statusInterval) {
+				return;
+			}
+			this.log.info(`[MQTT ${this.device.IMEI}] No messages for ${Math.round((now - this.lastMessageAt) / 1000)}s, requesting status again.`);
+			this.publishStatusRequest(client);
+		}, Math.max(1000, Math.round(this.statusInterval / 4)));
+	}
+
+	// Ask the device to publish its current state
+	private publishStatusRequest(client: MqttClient) {
+		this.lastStatusRequestAt = Date.now();
+		const statusTopic = `si/app/v2/${this.device.IMEI}/status`;
+		const message = JSON.stringify({ method: "GET" });
+		this.capture?.record(this.device.id, "out", statusTopic, message);
+		client.publish(statusTopic, message, { qos: 1, retain: false }, (error) => {
+			if (error) {
+				this.log.error(`[MQTT ${this.device.IMEI}] Failed to publish GET request to topic ${statusTopic}:`, error);
+			} else {
+				this.log.info(`[MQTT ${this.device.IMEI}] Published GET request to topic ${statusTopic}`);
+			}
+		});
+	}
+
+	private scheduleReconnect() {
+		if (this.stopped || this.reconnectTimer) {
+			return;
+		}
+		const delay = this.getBackoffDelay();
+		this.attempt++;
+		this.log.info(`[MQTT ${this.device.IMEI}] Reconnecting in ${Math.round(delay / 1000)}s (attempt ${this.attempt})...`);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			this.reconnect().catch((error) => {
+				this.log.error(`[MQTT ${this.device.IMEI}] Reconnect failed:`, error);
+				this.scheduleReconnect();
+			});
+		}, delay);
+	}
+
+	private async reconnect() {
+		this.teardownClient();
+		try {
+			if (this.authRefused) {
+				this.log.info(`[MQTT ${this.device.IMEI}] Refreshing access token before reconnecting...`);
+				await this.auth.forceTokenRefresh();
+			} else {
+				await this.auth.ensureAccessToken();
+			}
+		} catch (error) {
+			this.log.error(`[MQTT ${this.device.IMEI}] Could not obtain a valid access token:`, error);
+			this.scheduleReconnect();
+			return;
+		}
+		this.connect();
+	}
+
+	// Exponential delay, jittered to between half and all of it
+	private getBackoffDelay(): number {
+		const exponential = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, this.attempt));
+		return Math.round(exponential / 2 + Math.random() * exponential / 2);
+	}
+
+	private teardownClient() {
+		const client = this.client;
+		if (!client) {
+			return;
+		}
+		this.client = null;
+		if (this.mqttClients.get(this.device.id) === client) {
+			this.mqttClients.delete(this.device.id);
+		}
+		client.end(true);
+	}
+
+	private failInitial(error: Error) {
+		this.initialSettle?.reject(error);
+		this.initialSettle = null;
+	}
+
+	// CONNACK "bad username or password" / "not authorized" (MQTT 3.1.1 and 5)
+	private isAuthError(error: Error): boolean {
+		const code = (error as Error & { code?: number }).code;
+		return code === 4 || code === 5 || code === 134 || code === 135;
+	}
+}
@@ -1,40 +1,170 @@
 import { Logger } from "homebridge";
 import {
 	AlarmPayload,
+	AreaConfig,
+	AreaModes,
+	HomeKitArmMode,
+	OlarmAlarmZone,
 	OlarmArea,
 	OlarmAreaAction,
+	OlarmAreaGroup,
 	OlarmAreaState,
+	OlarmConnectivity,
+	OlarmEmergencyAction,
+	OlarmEvent,
+	OlarmEventQuery,
+	OlarmEventType,
+	OlarmPgm,
+	OlarmPgmAction,
+	OlarmPower,
+	OlarmPgmMode,
+	OlarmSignalPath,
+	OlarmUkey,
+	OlarmUkeyAction,
+	OlarmUkeyPayload,
+	OlarmZone,
+	OlarmZoneAction,
+	OlarmZoneState,
+	OlarmZoneType,
+	PgmConfig,
+	UkeyConfig,
+	ZoneConfig,
 } from "./types"; // Import types from a shared file
-import { Auth, Device } from "./auth";
+import { Device } from "./auth";
 import { MqttClient } from "mqtt";
+import { CommandResult, CommandTracker, areaActionToState } from "./commandTracker";
+import { MqttCapture } from "./capture";
+import { EventHistory } from "./eventHistory";
+import { DeviceApi } from "./deviceApi";
+
+// Default time the panel gets to confirm an area command
+const DEFAULT_COMMAND_TIMEOUT_MS = 30 * 1000;
+
+// Default time between state fetches over the HTTP device API while MQTT is down
+const DEFAULT_FALLBACK_POLL_INTERVAL_MS = 30 * 1000;
+
+// Delay before fetching the state after a command sent over the HTTP device API
+const FALLBACK_CONFIRM_DELAY_MS = 2 * 1000;
+
+// How often force arm checks whether the open zones report bypassed
+const BYPASS_POLL_INTERVAL_MS = 250;
+
+// Zones whose zonesStamp lies this close before (or shortly after) the area's
+// trigger time count as the cause of the alarm
+const ALARM_ZONE_WINDOW_BEFORE_MS = 60 * 1000;
+const ALARM_ZONE_WINDOW_AFTER_MS = 5 * 1000;
+
+// HomeKit Home, Away and Night map to stay, arm and sleep unless configured otherwise
+const DEFAULT_AREA_MODES: AreaModes = {
+	[HomeKitArmMode.Home]: OlarmAreaAction.Stay,
+	[HomeKitArmMode.Away]: OlarmAreaAction.Arm,
+	[HomeKitArmMode.Night]: OlarmAreaAction.Sleep,
+};
 
 // Define the expected properties for the Olarm constructor
 interface olarmProps {
-	auth: Auth;
+	devices: Device[];
 	log: Logger;
 	mqttClients: Map<string, MqttClient>;
+	capture?: MqttCapture; // Records outbound messages when capturing
+	history?: EventHistory; // Records area, zone and power changes
+	onEvent?: (event: OlarmEvent) => void; // Called for every recorded event, e.g. for webhooks
+	areaConfigs?: AreaConfig[];
+	zoneConfigs?: ZoneConfig[];
+	pgmConfigs?: PgmConfig[];
+	ukeyConfigs?: UkeyConfig[];
+	commandTimeout?: number; // ms
+	staleTimeout?: number; // ms without a status payload before the state counts as stale, 0 to disable
+	deviceApi?: DeviceApi; // HTTP fallback for state and commands while MQTT is down
+	fallbackPollInterval?: number; // ms
 	onStateUpdate: () => void; // Add the missing property definition
 }
 
 export class Olarm {
 	private log: Logger;
-	private auth: Auth;
 	private areas: OlarmArea[] = [];
+	private areaConfigs: AreaConfig[];
+	private zones: OlarmZone[] = [];
+	private zoneConfigs: ZoneConfig[];
+	private pgms: OlarmPgm[] = [];
+	private pgmConfigs: PgmConfig[];
+	private ukeys: OlarmUkey[] = [];
+	private ukeyConfigs: UkeyConfig[];
+	private power: OlarmPower[] = [];
+	private commandTracker: CommandTracker;
+	private lastCmdRecv: Map<string, number> = new Map();
 	private devicesMap: Map<string, Device> = new Map();
 	private mqttClients: Map<string, MqttClient>;
+	private capture: MqttCapture | undefined;
+	private history: EventHistory | undefined;
+	private onEvent: ((event: OlarmEvent) => void) | undefined;
+	private connected: Map<string, boolean> = new Map();
+	private connectivity: OlarmConnectivity[] = [];
+	private communicatorOffline: Map<string, boolean> = new Map(); // From the payload status
+	private commandTimeout: number;
+	private staleTimeout: number;
+	private deviceApi: DeviceApi | undefined;
+	private fallbackPollInterval: number;
+	private fallbackTimers: Map<string, NodeJS.Timeout> = new Map(); // Devices polled over HTTP
+	private fallbackReachable: Map<string, boolean> = new Map(); // Last HTTP state fetch succeeded
+	private lastPayloadAt: Map<string, number> = new Map(); // Since startup until the first payload
+	private reportedDevices: Set<string> = new Set(); // Devices that sent their state since startup
+	private lastAreaCommands: Map<string, { action: OlarmAreaAction; source: string; sentAt: number }> = new Map(); // Keyed by deviceId:areaNumber
+	private forceBypassedZones: Map<string, number[]> = new Map(); // Zones bypassed by force arm, keyed by deviceId:areaNumber
 	private onStateUpdateCallback: () => void; // Store the callback
 
-	constructor({ auth, log, mqttClients, onStateUpdate }: olarmProps) {
-		this.auth = auth;
+	constructor({ devices, log, mqttClients, capture, history, onEvent, areaConfigs, zoneConfigs, pgmConfigs, ukeyConfigs, commandTimeout, staleTimeout, deviceApi, fallbackPollInterval, onStateUpdate }: olarmProps) {
 		this.log = log;
 		this.mqttClients = mqttClients;
+		this.capture = capture;
+		this.history = history;
+		this.onEvent = onEvent;
+		this.areaConfigs = areaConfigs ?? [];
+		this.zoneConfigs = zoneConfigs ?? [];
+		this.pgmConfigs = pgmConfigs ?? [];
+		this.ukeyConfigs = ukeyConfigs ?? [];
+		this.commandTimeout = commandTimeout ?? DEFAULT_COMMAND_TIMEOUT_MS;
+		this.staleTimeout = staleTimeout ?? 0;
+		this.deviceApi = deviceApi;
+		this.fallbackPollInterval = fallbackPollInterval ?? DEFAULT_FALLBACK_POLL_INTERVAL_MS;
+		this.commandTracker = new CommandTracker(log, this.commandTimeout);
 		this.onStateUpdateCallback = onStateUpdate; // Store the passed callback
 
 		// Initialize devices map
-		const devices = this.auth.getDevices();
-		devices.forEach((device) => {
-			this.devicesMap.set(device.id, device);
-		});
+		devices.forEach((device) => this.addDevice(device));
+	}
+
+	// Add a device, or update its details (e.g. labels) if already known
+	public addDevice(device: Device) {
+		this.devicesMap.set(device.id, device);
+		if (!this.lastPayloadAt.has(device.id)) {
+			this.lastPayloadAt.set(device.id, Date.now());
+		}
+	}
+
+	// Forget a device that is no longer available, along with its state and pending commands
+	public removeDevice(deviceId: string) {
+		this.stopFallback(deviceId);
+		this.commandTracker.cancelDevice(deviceId, new Error(`Device ${deviceId} was removed`));
+		this.devicesMap.delete(deviceId);
+		this.areas = this.areas.filter(a => a.deviceId !== deviceId);
+		this.zones = this.zones.filter(z => z.deviceId !== deviceId);
+		this.pgms = this.pgms.filter(p => p.deviceId !== deviceId);
+		this.ukeys = this.ukeys.filter(u => u.deviceId !== deviceId);
+		this.power = this.power.filter(p => p.deviceId !== deviceId);
+		this.connectivity = this.connectivity.filter(c => c.deviceId !== deviceId);
+		this.connected.delete(deviceId);
+		this.communicatorOffline.delete(deviceId);
+		this.lastPayloadAt.delete(deviceId);
+		this.reportedDevices.delete(deviceId);
+		this.lastCmdRecv.delete(deviceId);
+		for (const map of [this.lastAreaCommands, this.forceBypassedZones] as Map<string, unknown>[]) {
+			for (const key of Array.from(map.keys())) {
+				if (key.startsWith(`${deviceId}:`)) {
+					map.delete(key);
+				}
+			}
+		}
 	}
 
 	// Method to process MQTT messages
@@ -57,10 +187,26 @@ export class Olarm {
 			// Check if it's the expected alarm payload structure
 			if (payload && payload.type === "alarmPayload" && payload.data && payload.data.areas) {
 				this.log.debug(`Processing MQTT alarm payload for device ${deviceId}`);
-				const stateChanged = this.parseAreasFromPayload(deviceId, payload as AlarmPayload);
+				this.lastPayloadAt.set(deviceId, Date.now());
+				this.reportedDevices.add(deviceId);
+				const areasChanged = this.parseAreasFromPayload(deviceId, payload as AlarmPayload);
+				const zonesChanged = this.parseZonesFromPayload(deviceId, payload as AlarmPayload);
+				const pgmsChanged = this.parsePgmsFromPayload(deviceId, payload as AlarmPayload);
+				const ukeysChanged = this.parseUkeysFromPayload(deviceId, payload as AlarmPayload);
+				const powerChanged = this.parsePowerFromPayload(deviceId, payload as AlarmPayload);
+				const connectivityChanged = this.parseConnectivityFromPayload(deviceId, payload as AlarmPayload);
+				const stateChanged = areasChanged || zonesChanged || pgmsChanged || ukeysChanged || powerChanged || connectivityChanged;
+
+				// Confirm or fail pending area commands against the new state
+				const cmdRecv = typeof payload.data.cmdRecv === "number" ? payload.data.cmdRecv : null;
+				this.commandTracker.processPayload(deviceId, cmdRecv, this.areas.filter(a => a.deviceId === deviceId));
+				if (cmdRecv !== null) {
+					this.lastCmdRecv.set(deviceId, cmdRecv);
+				}
+
 				// If the state actually changed, invoke the callback
 				if (stateChanged) {
-					this.log.debug("Area state changed, triggering update callback.");
+					this.log.debug("Alarm state changed, triggering update callback.");
 					this.onStateUpdateCallback();
 				}
 			} else {
@@ -83,23 +229,54 @@ export class Olarm {
 			: areasStates.map((_, i) => `Area ${i + 1}`); // Generate names if details are missing/mismatched
 
 		for (let i = 0; i < areasStates.length; i++) {
-			const areaName = areasDetails[i];
+			const areaConfig = findConfigOverride(this.areaConfigs.filter(a => a.areaNumber === i + 1), deviceId);
+			const areaName = areaConfig?.name || areasDetails[i];
 			const areaStateStr = areasStates[i]; // E.g., "disarm"
 			const areaStateEnum = this.convertAreaState(areaStateStr);
+			const existingArea = this.areas.find(a => a.deviceId === deviceId && a.areaNumber === (i + 1));
+			const newlyTriggered = areaStateEnum === OlarmAreaState.Triggered && existingArea?.areaState !== OlarmAreaState.Triggered;
 
 			const newArea: OlarmArea = {
 				areaName: areaName,
 				deviceId: deviceId,
 				areaNumber: i + 1,
 				areaState: areaStateEnum,
+				hidden: areaConfig?.hidden ?? false,
+				modes: this.getAreaModes(areaConfig),
+				excludeFromAllAreas: Array.isArray(areaConfig?.allAreasExclude) ? areaConfig!.allAreasExclude : [],
+				forceArm: areaConfig?.forceArm ?? false,
+				alarmZones: areaStateEnum !== OlarmAreaState.Triggered
+					? []
+					: newlyTriggered ? this.findAlarmZones(deviceId, payload, i) : existingArea!.alarmZones ?? [],
 			};
 			newAreas.push(newArea);
 
+			if (newlyTriggered) {
+				const zoneList = newArea.alarmZones.map(z => `${z.zoneNumber} (${z.zoneName})`).join(", ") || "unknown";
+				this.log.error(`ALARM on device ${deviceId}, area ${newArea.areaNumber} (${areaName}) triggered by zone(s): ${zoneList}`);
+			}
+
 			// Check if this area's state changed compared to the previous state
-			const existingArea = this.areas.find(a => a.deviceId === deviceId && a.areaNumber === (i + 1));
-			if (!existingArea || existingArea.areaState !== newArea.areaState || existingArea.areaName !== newArea.areaName) {
+			if (!existingArea || existingArea.areaState !== newArea.areaState || existingArea.areaName !== newArea.areaName || existingArea.hidden !== newArea.hidden) {
 				stateChanged = true;
 			}
+			if (existingArea && existingArea.areaState !== newArea.areaState) {
+				this.recordEvent({
+					type: OlarmEventType.Area,
+					deviceId: deviceId,
+					areaNumber: newArea.areaNumber,
+					name: areaName,
+					state: newArea.areaState,
+					previousState: existingArea.areaState,
+					source: this.getAreaChangeSource(newArea),
+					alarmZones: newArea.alarmZones.length > 0 ? newArea.alarmZones.map(z => z.zoneName) : undefined,
+				});
+			}
+			// Bypassing the open zones turns not ready into disarmed, only restore after being armed
+			if (existingArea && newArea.areaState === OlarmAreaState.Disarmed &&
+				existingArea.areaState !== OlarmAreaState.Disarmed && existingArea.areaState !== OlarmAreaState.NotReady) {
+				this.restoreForceBypasses(newArea);
+			}
 		}
 
 		// Check if the number of areas changed
@@ -122,6 +299,397 @@ export class Olarm {
 		return stateChanged; // Return whether any state relevant to accessories changed
 	}
 
+	// Zones behind an alarm: those that changed in the minute before the area triggered,
+	// which covers the same and the preceding payload, preferring the ones still open.
+	// Without usable stamps the active zones are taken. The panel does not say which zones belong to an area, so all zones
+	// of the device are considered.
+	private findAlarmZones(deviceId: string, payload: AlarmPayload, areaIndex: number): OlarmAlarmZone[] {
+		const zonesStates = Array.isArray(payload.data.zones) ? payload.data.zones : [];
+		const zonesStamps = Array.isArray(payload.data.zonesStamp) ? payload.data.zonesStamp : [];
+		const triggeredAt = Array.isArray(payload.data.areasStamp) ? payload.data.areasStamp[areaIndex] : undefined;
+		const candidates = zonesStates
+			.map((state, i) => ({ zoneNumber: i + 1, state: this.convertZoneState(state), stamp: zonesStamps[i] }))
+			.filter(z => z.state !== OlarmZoneState.Bypassed);
+
+		const inWindow = typeof triggeredAt === "number"
+			? candidates.filter(z => typeof z.stamp === "number" &&
+				z.stamp >= triggeredAt - ALARM_ZONE_WINDOW_BEFORE_MS && z.stamp <= triggeredAt + ALARM_ZONE_WINDOW_AFTER_MS)
+			: [];
+		const active = candidates.filter(z => z.state === OlarmZoneState.Active);
+		// Still open in the window first, then closed again (e.g. a door), then open at all
+		const activeInWindow = inWindow.filter(z => z.state === OlarmZoneState.Active);
+		const matches = activeInWindow.length > 0 ? activeInWindow : inWindow.length > 0 ? inWindow : active;
+		// Earliest first, that is most likely the zone that set it off
+		return matches
+			.sort((a, b) => (a.stamp ?? 0) - (b.stamp ?? 0))
+			.map(z => ({ zoneNumber: z.zoneNumber, zoneName: this.getZoneName(deviceId, z.zoneNumber) }));
+	}
+
+	// HomeKit mode mapping for an area, configured actions over the defaults
+	private getAreaModes(areaConfig: AreaConfig | undefined): AreaModes {
+		const modes: AreaModes = { ...DEFAULT_AREA_MODES };
+		for (const mode of Object.values(HomeKitArmMode)) {
+			const configured = areaConfig?.[mode];
+			if (configured === "disabled") {
+				modes[mode] = null;
+			} else if (configured && (Object.values(OlarmAreaAction) as string[]).includes(configured)) {
+				modes[mode] = configured;
+			} else if (configured) {
+				this.log.warn(`Unknown action "${configured}" for HomeKit mode "${mode}" in area ${areaConfig?.areaNumber} config, using the default.`);
+			}
+		}
+		return modes;
+	}
+
+	// Parse the zones from the MQTT payload and return true if state changed
+	private parseZonesFromPayload(deviceId: string, payload: AlarmPayload): boolean {
+		const zonesStates = payload.data.zones;
+		if (!Array.isArray(zonesStates)) {
+			return false;
+		}
+		const zonesStamps = Array.isArray(payload.data.zonesStamp) ? payload.data.zonesStamp : [];
+		const newZones: OlarmZone[] = [];
+		let stateChanged = false;
+
+		for (let i = 0; i < zonesStates.length; i++) {
+			const zoneNumber = i + 1;
+			const zoneConfig = this.getZoneConfig(deviceId, zoneNumber);
+			const zoneName = this.getZoneName(deviceId, zoneNumber);
+
+			const newZone: OlarmZone = {
+				zoneName: zoneName,
+				deviceId: deviceId,
+				zoneNumber: zoneNumber,
+				zoneState: this.convertZoneState(zonesStates[i]),
+				zoneType: zoneConfig?.type ?? this.getProfileZoneType(deviceId, zoneNumber) ?? this.guessZoneType(zoneName),
+				lastChanged: typeof zonesStamps[i] === "number" ? zonesStamps[i] : null,
+				alarmSource: this.areas.some(a => a.deviceId === deviceId && a.alarmZones.some(z => z.zoneNumber === zoneNumber)),
+			};
+			newZones.push(newZone);
+
+			const existingZone = this.zones.find(z => z.deviceId === deviceId && z.zoneNumber === zoneNumber);
+			if (!existingZone || existingZone.zoneState !== newZone.zoneState || existingZone.zoneName !== newZone.zoneName ||
+				existingZone.zoneType !== newZone.zoneType || existingZone.alarmSource !== newZone.alarmSource) {
+				stateChanged = true;
+			}
+			if (existingZone && existingZone.zoneState !== newZone.zoneState) {
+				this.recordEvent({
+					type: OlarmEventType.Zone,
+					deviceId: deviceId,
+					zoneNumber: zoneNumber,
+					name: zoneName,
+					state: newZone.zoneState,
+					previousState: existingZone.zoneState,
+				});
+			}
+		}
+
+		if (this.zones.filter(z => z.deviceId === deviceId).length !== newZones.length) {
+			stateChanged = true;
+		}
+
+		this.zones = this.zones.filter(z => z.deviceId !== deviceId);
+		this.zones.push(...newZones);
+
+		if (stateChanged) {
+			this.log.debug(`Updated zones for device ${deviceId}:`, newZones);
+		}
+
+		return stateChanged;
+	}
+
+	// Configured name, then the label from the device profile
+	private getZoneName(deviceId: string, zoneNumber: number): string {
+		const label = this.devicesMap.get(deviceId)?.profile?.zonesLabels?.[zoneNumber - 1]?.trim();
+		return this.getZoneConfig(deviceId, zoneNumber)?.name || label || `Zone ${zoneNumber}`;
+	}
+
+	private getZoneConfig(deviceId: string, zoneNumber: number): ZoneConfig | undefined {
+		return findConfigOverride(this.zoneConfigs.filter(z => z.zoneNumber === zoneNumber), deviceId);
+	}
+
+	// Zone type from the device profile (1 = motion), undefined if the profile has none for the zone
+	private getProfileZoneType(deviceId: string, zoneNumber: number): OlarmZoneType | undefined {
+		const type = this.devicesMap.get(deviceId)?.profile?.zonesTypes?.[zoneNumber - 1];
+		if (typeof type !== "number") {
+			return undefined;
+		}
+		return type === 1 ? OlarmZoneType.Motion : OlarmZoneType.Contact;
+	}
+
+	// Without a configured or profile type, infer motion sensors from the zone label
+	private guessZoneType(zoneName: string): OlarmZoneType {
+		return /pir|motion|beam|passive/i.test(zoneName) ? OlarmZoneType.Motion : OlarmZoneType.Contact;
+	}
+
+	// Parse the PGM outputs from the MQTT payload and return true if state changed
+	private parsePgmsFromPayload(deviceId: string, payload: AlarmPayload): boolean {
+		const pgmStates = payload.data.pgm;
+		if (!Array.isArray(pgmStates)) {
+			return false;
+		}
+		const profile = this.devicesMap.get(deviceId)?.profile;
+		const newPgms: OlarmPgm[] = [];
+		let stateChanged = false;
+
+		for (let i = 0; i < pgmStates.length; i++) {
+			const pgmNumber = i + 1;
+			const pgmConfig = findConfigOverride(this.pgmConfigs.filter(p => p.pgmNumber === pgmNumber), deviceId);
+			const label = profile?.pgmLabels?.[i]?.trim();
+
+			const newPgm: OlarmPgm = {
+				pgmName: pgmConfig?.name || label || `PGM ${pgmNumber}`,
+				deviceId: deviceId,
+				pgmNumber: pgmNumber,
+				pgmOn: this.convertPgmState(pgmStates[i]),
+				pgmMode: pgmConfig?.mode ?? OlarmPgmMode.Switch,
+			};
+			newPgms.push(newPgm);
+
+			const existingPgm = this.pgms.find(p => p.deviceId === deviceId && p.pgmNumber === pgmNumber);
+			if (!existingPgm || existingPgm.pgmOn !== newPgm.pgmOn || existingPgm.pgmName !== newPgm.pgmName || existingPgm.pgmMode !== newPgm.pgmMode) {
+				stateChanged = true;
+			}
+		}
+
+		if (this.pgms.filter(p => p.deviceId === deviceId).length !== newPgms.length) {
+			stateChanged = true;
+		}
+
+		this.pgms = this.pgms.filter(p => p.deviceId !== deviceId);
+		this.pgms.push(...newPgms);
+
+		if (stateChanged) {
+			this.log.debug(`Updated PGMs for device ${deviceId}:`, newPgms);
+		}
+
+		return stateChanged;
+	}
+
+	// Parse the utility keys from the MQTT payload and return true if the list changed.
+	// Ukeys are stateless, so only names, visibility and count are compared.
+	private parseUkeysFromPayload(deviceId: string, payload: AlarmPayload): boolean {
+		const ukeysPayload = payload.data.ukeys;
+		if (!Array.isArray(ukeysPayload)) {
+			return false;
+		}
+		const profile = this.devicesMap.get(deviceId)?.profile;
+		const newUkeys: OlarmUkey[] = [];
+
+		for (let i = 0; i < ukeysPayload.length; i++) {
+			const ukeyNumber = i + 1;
+			const ukeyConfig = findConfigOverride(this.ukeyConfigs.filter(u => u.ukeyNumber === ukeyNumber), deviceId);
+			const label = this.getUkeyLabel(ukeysPayload[i]) || profile?.ukeysLabels?.[i]?.trim();
+			newUkeys.push({
+				ukeyName: ukeyConfig?.name || label || `Utility Key ${ukeyNumber}`,
+				deviceId: deviceId,
+				ukeyNumber: ukeyNumber,
+				hidden: ukeyConfig?.hidden ?? false,
+			});
+		}
+
+		const existingUkeys = this.ukeys.filter(u => u.deviceId === deviceId);
+		const stateChanged = existingUkeys.length !== newUkeys.length ||
+			newUkeys.some((u, i) => existingUkeys[i].ukeyName !== u.ukeyName || existingUkeys[i].hidden !== u.hidden);
+
+		this.ukeys = this.ukeys.filter(u => u.deviceId !== deviceId);
+		this.ukeys.push(...newUkeys);
+
+		if (stateChanged) {
+			this.log.debug(`Updated utility keys for device ${deviceId}:`, newUkeys);
+		}
+
+		return stateChanged;
+	}
+
+	private getUkeyLabel(ukey: OlarmUkeyPayload): string | undefined {
+		if (typeof ukey === "string") {
+			return ukey.trim() || undefined;
+		}
+		return (ukey?.name || ukey?.label)?.trim() || undefined;
+	}
+
+	// Parse mains and battery status from the MQTT payload and return true if it changed
+	private parsePowerFromPayload(deviceId: string, payload: AlarmPayload): boolean {
+		const powerPayload = payload.data.power;
+		if (!powerPayload) {
+			return false;
+		}
+		const device = this.devicesMap.get(deviceId);
+		const newPower: OlarmPower = {
+			deviceId: deviceId,
+			deviceName: device?.name || device?.IMEI || deviceId,
+			acOk: this.convertPowerState(powerPayload.AC),
+			batteryOk: this.convertPowerState(powerPayload.Batt),
+		};
+
+		const existingPower = this.power.find(p => p.deviceId === deviceId);
+		const stateChanged = !existingPower || existingPower.acOk !== newPower.acOk || existingPower.batteryOk !== newPower.batteryOk;
+
+		if (existingPower && existingPower.acOk !== newPower.acOk) {
+			this.log.warn(`Mains power ${newPower.acOk ? "restored" : "lost"} on device ${newPower.deviceName}.`);
+			this.recordEvent({
+				type: OlarmEventType.Power,
+				deviceId: deviceId,
+				name: "Mains",
+				state: newPower.acOk ? "ok" : "lost",
+				previousState: existingPower.acOk ? "ok" : "lost",
+			});
+		}
+		if (existingPower && existingPower.batteryOk !== newPower.batteryOk) {
+			this.log.warn(`Backup battery ${newPower.batteryOk ? "restored" : "low"} on device ${newPower.deviceName}.`);
+			this.recordEvent({
+				type: OlarmEventType.Power,
+				deviceId: deviceId,
+				name: "Battery",
+				state: newPower.batteryOk ? "ok" : "low",
+				previousState: existingPower.batteryOk ? "ok" : "low",
+			});
+		}
+
+		this.power = this.power.filter(p => p.deviceId !== deviceId);
+		this.power.push(newPower);
+
+		return stateChanged;
+	}
+
+	// Status, signal path and last contact of the communicator, return true if online or path changed
+	private parseConnectivityFromPayload(deviceId: string, payload: AlarmPayload): boolean {
+		this.communicatorOffline.set(deviceId, payload.status === "offline");
+		const wifiStamp = this.convertStamp(payload.wifiStamp);
+		const gsmStamp = this.convertStamp(payload.gsmStamp);
+		let path = OlarmSignalPath.Unknown;
+		if (wifiStamp !== null && (gsmStamp === null || wifiStamp >= gsmStamp)) {
+			path = OlarmSignalPath.Wifi;
+		} else if (gsmStamp !== null) {
+			path = OlarmSignalPath.Gsm;
+		}
+		const stamps = [wifiStamp, gsmStamp].filter((s): s is number => s !== null);
+		return this.updateConnectivity(deviceId, path, stamps.length > 0 ? Math.max(...stamps) : Date.now());
+	}
+
+	// Stamps are expected in ms, but accept seconds as well
+	private convertStamp(stamp: unknown): number | null {
+		if (typeof stamp !== "number" || stamp <= 0) {
+			return null;
+		}
+		return stamp < 1e12 ? stamp * 1000 : stamp;
+	}
+
+	// Recompute the connectivity of a device, logging and recording changes. Returns true if online or path changed.
+	private updateConnectivity(deviceId: string, path?: OlarmSignalPath, lastSeen?: number): boolean {
+		const device = this.devicesMap.get(deviceId);
+		const existing = this.connectivity.find(c => c.deviceId === deviceId);
+		const updated: OlarmConnectivity = {
+			deviceId: deviceId,
+			deviceName: device?.name || device?.IMEI || deviceId,
+			online: ((this.connected.get(deviceId) ?? false) || (this.fallbackReachable.get(deviceId) ?? false)) && !this.communicatorOffline.get(deviceId),
+			path: path ?? existing?.path ?? OlarmSignalPath.Unknown,
+			lastSeen: lastSeen ?? existing?.lastSeen ?? null,
+		};
+		this.connectivity = this.connectivity.filter(c => c.deviceId !== deviceId);
+		this.connectivity.push(updated);
+
+		if (existing && existing.online !== updated.online) {
+			this.log.warn(`Device ${updated.deviceName} is ${updated.online ? "back online" : "offline"}.`);
+			this.recordEvent({
+				type: OlarmEventType.Connection,
+				deviceId: deviceId,
+				name: updated.deviceName,
+				state: updated.online ? "online" : "offline",
+				previousState: existing.online ? "online" : "offline",
+			});
+		}
+		if (existing && existing.path !== OlarmSignalPath.Unknown && existing.path !== updated.path && updated.path !== OlarmSignalPath.Unknown) {
+			this.log.warn(`Device ${updated.deviceName} switched to ${updated.path === OlarmSignalPath.Gsm ? "GSM backup" : "WiFi"}.`);
+		}
+		return !existing || existing.online !== updated.online || existing.path !== updated.path;
+	}
+
+	// Called by the MQTT supervisor when a connection is subscribed or closes
+	public setConnected(deviceId: string, connected: boolean) {
+		const previous = this.connected.get(deviceId);
+		this.connected.set(deviceId, connected);
+		if (connected) {
+			if (this.stopFallback(deviceId)) {
+				this.log.info(`MQTT is back for device ${deviceId}, stopped using the HTTP device API.`);
+			}
+		} else {
+			this.startFallback(deviceId);
+		}
+		// The first connect is followed by a status payload, only report later changes
+		if (this.updateConnectivity(deviceId) && previous !== undefined) {
+			this.onStateUpdateCallback();
+		}
+	}
+
+	private recordEvent(event: Omit<OlarmEvent, "timestamp">) {
+		const fullEvent: OlarmEvent = { timestamp: Date.now(), ...event };
+		this.history?.record(fullEvent);
+		try {
+			this.onEvent?.(fullEvent);
+		} catch (error) {
+			this.log.error("Failed to handle event:", error);
+		}
+	}
+
+	// An area reaching the state we asked for shortly after our command was most likely caused by it.
+	// Changes from the keypad, the Olarm app or the panel itself have no known source.
+	private getAreaChangeSource(area: OlarmArea): string | undefined {
+		const key = `${area.deviceId}:${area.areaNumber}`;
+		const command = this.lastAreaCommands.get(key);
+		if (!command || Date.now() - command.sentAt > this.commandTimeout) {
+			return undefined;
+		}
+		const disarmed = command.action === OlarmAreaAction.Disarm && area.areaState === OlarmAreaState.NotReady;
+		if (area.areaState !== areaActionToState(command.action) && !disarmed) {
+			return undefined;
+		}
+		this.lastAreaCommands.delete(key);
+		return command.source;
+	}
+
+	// Convert the AC/Batt status string, "1" (or "ok") means healthy
+	private convertPowerState(state: string): boolean {
+		switch (String(state ?? "").toLowerCase()) {
+			case "1":
+			case "ok":
+			case "on":
+			case "true":
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	// Convert PGM state string to on/off, "a" is an active (open) output
+	private convertPgmState(state: string): boolean {
+		switch ((state ?? "").toLowerCase()) {
+			case "a":
+				return true;
+			case "c":
+				return false;
+			default:
+				this.log.warn(`Unknown PGM state received: "${state}". Mapping to off.`);
+				return false;
+		}
+	}
+
+	// Convert zone state from string to OlarmZoneState enum
+	private convertZoneState(state: string): OlarmZoneState {
+		switch ((state ?? "").toLowerCase()) {
+			case "c":
+				return OlarmZoneState.Closed;
+			case "a":
+				return OlarmZoneState.Active;
+			case "b":
+				return OlarmZoneState.Bypassed;
+			default:
+				this.log.warn(`Unknown zone state received: "${state}". Mapping to Closed.`);
+				return OlarmZoneState.Closed;
+		}
+	}
+
 	// Convert area state from string to OlarmAreaState enum
 	private convertAreaState(state: string): OlarmAreaState {
 		state = state.toLowerCase(); // Normalize to lower case
@@ -146,25 +714,382 @@ export class Olarm {
 		}
 	}
 
+	// Method to get all known devices
+	public getDevices(): Device[] {
+		return JSON.parse(JSON.stringify([...this.devicesMap.values()]));
+	}
+
 	// Method to get all areas (called by discoverDevices and state update handler)
 	public getAreas(): OlarmArea[] {
 		// Return a copy to prevent external modification
 		return JSON.parse(JSON.stringify(this.areas));
 	}
 
+	// Method to get the areas of each device, for the All Areas accessories
+	public getAreaGroups(): OlarmAreaGroup[] {
+		return [...this.devicesMap.values()].map(device => ({
+			deviceId: device.id,
+			deviceName: device.name || device.IMEI || device.id,
+			areas: this.getAreas().filter(area => area.deviceId === device.id),
+		})).filter(group => group.areas.length > 0);
+	}
+
+	// Method to get all zones (called by discoverDevices and state update handler)
+	public getZones(): OlarmZone[] {
+		return JSON.parse(JSON.stringify(this.zones));
+	}
+
+	// Method to get all PGM outputs
+	public getPgms(): OlarmPgm[] {
+		return JSON.parse(JSON.stringify(this.pgms));
+	}
+
+	// Method to get all utility keys
+	public getUkeys(): OlarmUkey[] {
+		return JSON.parse(JSON.stringify(this.ukeys));
+	}
+
+	// Method to get mains/battery status per device
+	public getPower(): OlarmPower[] {
+		return JSON.parse(JSON.stringify(this.power));
+	}
+
+	// Poll the HTTP device API until MQTT is back, starting with an immediate fetch
+	private startFallback(deviceId: string) {
+		if (!this.deviceApi || this.fallbackTimers.has(deviceId)) {
+			return;
+		}
+		this.log.warn(`MQTT is down for device ${deviceId}, using the HTTP device API every ${Math.round(this.fallbackPollInterval / 1000)}s until it reconnects.`);
+		this.fallbackTimers.set(deviceId, setInterval(() => this.fetchFallbackState(deviceId), this.fallbackPollInterval));
+		this.fetchFallbackState(deviceId);
+	}
+
+	// Returns true if the device was being polled
+	private stopFallback(deviceId: string): boolean {
+		const timer = this.fallbackTimers.get(deviceId);
+		this.fallbackReachable.delete(deviceId);
+		if (!timer) {
+			return false;
+		}
+		clearInterval(timer);
+		this.fallbackTimers.delete(deviceId);
+		return true;
+	}
+
+	// Stop all HTTP polling, e.g. on shutdown
+	public stopFallbacks() {
+		for (const deviceId of Array.from(this.fallbackTimers.keys())) {
+			this.stopFallback(deviceId);
+		}
+	}
+
+	// Fetch the state over HTTP and process it like an MQTT status payload
+	private async fetchFallbackState(deviceId: string) {
+		if (!this.deviceApi || this.connected.get(deviceId) || !this.devicesMap.has(deviceId)) {
+			return;
+		}
+		let reachable = false;
+		try {
+			const payload = await this.deviceApi.fetchState(deviceId);
+			// MQTT may have come back (or the device been removed) while the request was in flight
+			if (this.connected.get(deviceId) || !this.devicesMap.has(deviceId)) {
+				return;
+			}
+			reachable = true;
+			this.fallbackReachable.set(deviceId, true);
+			this.processMqttMessage(deviceId, "http", JSON.stringify(payload));
+		} catch (error) {
+			this.log.error(`Failed to fetch the state of device ${deviceId} over the HTTP device API: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		if (!reachable && this.fallbackReachable.get(deviceId)) {
+			this.fallbackReachable.set(deviceId, false);
+			if (this.updateConnectivity(deviceId)) {
+				this.onStateUpdateCallback();
+			}
+		}
+	}
+
+	// Method to get the communicator status per device
+	public getConnectivity(): OlarmConnectivity[] {
+		return JSON.parse(JSON.stringify(this.connectivity));
+	}
+
+	// False once the cloud connection or the communicator is known to be down
+	public isDeviceOnline(deviceId: string): boolean {
+		return this.connectivity.find(c => c.deviceId === deviceId)?.online ?? true;
+	}
+
+	// True once the device has sent its state, so its areas, zones etc. are known
+	public hasReported(deviceId: string): boolean {
+		return this.reportedDevices.has(deviceId);
+	}
+
+	// When the last status payload arrived, undefined before the first one
+	public getLastPayloadAt(deviceId: string): number | undefined {
+		return this.reportedDevices.has(deviceId) ? this.lastPayloadAt.get(deviceId) : undefined;
+	}
+
+	// True when no status payload has arrived within the stale timeout, so the known state may be wrong
+	public isStateStale(deviceId: string): boolean {
+		const last = this.lastPayloadAt.get(deviceId);
+		return this.staleTimeout > 0 && last !== undefined && Date.now() - last > this.staleTimeout;
+	}
+
+	// Query the event history, newest first. Empty if history is disabled.
+	public async queryEvents(query: OlarmEventQuery = {}): Promise<OlarmEvent[]> {
+		return this.history ? this.history.query(query) : [];
+	}
+
 	// Method to handle area actions
-	public async setArea(area: OlarmArea, action: OlarmAreaAction): Promise<boolean> {
+	// Resolves once the command is published, use getAreaConfirmation() to follow it up.
+	// The source ends up in the event history for the resulting area change.
+	public async setArea(area: OlarmArea, action: OlarmAreaAction, source = "homebridge"): Promise<boolean> {
+		this.log.info(`Publishing action "${action}" for area ${area.areaNumber} (${area.areaName}) on device ${area.deviceId}`);
+		// Track before publishing so a fast confirmation is not missed
+		this.commandTracker.track(area, action, this.lastCmdRecv.get(area.deviceId) ?? null);
+		this.lastAreaCommands.set(`${area.deviceId}:${area.areaNumber}`, { action: action, source: source, sentAt: Date.now() });
+		const success = await this.publishControl(area.deviceId, [
+			action, // e.g., "arm", "disarm", "stay", "sleep"
+			area.areaNumber // The number of the area (e.g., 1, 2)
+		]);
+		if (success) {
+			this.log.info(`Successfully published action "${action}" for area ${area.areaName}. Waiting for state confirmation via MQTT...`);
+		} else {
+			this.lastAreaCommands.delete(`${area.deviceId}:${area.areaNumber}`);
+			this.commandTracker.cancel(area.deviceId, area.areaNumber, new Error(`Failed to publish "${action}" for area ${area.areaNumber}`));
+		}
+		return success;
+	}
+
+	// A not ready area has open zones, arming it means bypassing them first
+	public needsForceArm(area: OlarmArea, action: OlarmAreaAction): boolean {
+		const current = this.areas.find(a => a.deviceId === area.deviceId && a.areaNumber === area.areaNumber) ?? area;
+		return action !== OlarmAreaAction.Disarm && current.areaState === OlarmAreaState.NotReady;
+	}
+
+	/**
+	 * Why a requested area command has to be refused, or null if it can be sent.
+	 * A not ready area only arms with force arm enabled and the areas of its open zones known.
+	 */
+	public getAreaCommandRefusal(area: OlarmArea, action: OlarmAreaAction): string | null {
+		if (!this.needsForceArm(area, action)) {
+			return null;
+		}
+		const current = this.areas.find(a => a.deviceId === area.deviceId && a.areaNumber === area.areaNumber) ?? area;
+		const { zones, unassigned } = this.getOpenZones(current);
+		if (current.forceArm && unassigned.length === 0) {
+			return null;
+		}
+		const zoneList = [...zones, ...unassigned].map(z => `${z.zoneNumber} (${z.zoneName})`).join(", ") || "unknown";
+		return `Cannot ${action}, the area is not ready. Open zones: ${zoneList}. ` +
+			(current.forceArm
+				? "Force arm needs to know their areas, set them in the zone config."
+				: "Close them or enable force arm for this area.");
+	}
+
+	/**
+	 * Send a requested area command, force arming a not ready area. Check it with
+	 * getAreaCommandRefusal() first. Resolves once the arm or disarm command is sent.
+	 */
+	public sendAreaCommand(area: OlarmArea, action: OlarmAreaAction, source = "homebridge"): Promise<boolean> {
+		return this.needsForceArm(area, action)
+			? this.forceArmArea(area, action, source)
+			: this.setArea(area, action, source);
+	}
+
+	/**
+	 * Zones that keep a not ready area from arming. The payload does not say which area
+	 * a zone belongs to, so that comes from the zone config, or is the only area of the
+	 * device. Open zones without a known area are listed as unassigned.
+	 */
+	public getOpenZones(area: OlarmArea): { zones: OlarmZone[]; unassigned: OlarmZone[] } {
+		const openZones = this.getZones().filter(z => z.deviceId === area.deviceId && z.zoneState === OlarmZoneState.Active);
+		const zones: OlarmZone[] = [];
+		const unassigned: OlarmZone[] = [];
+		for (const zone of openZones) {
+			const zoneAreas = this.getZoneAreas(zone.deviceId, zone.zoneNumber);
+			if (!zoneAreas) {
+				unassigned.push(zone);
+			} else if (zoneAreas.includes(area.areaNumber)) {
+				zones.push(zone);
+			}
+		}
+		return { zones: zones, unassigned: unassigned };
+	}
+
+	// Areas of a zone from config, null if unknown on a device with several areas
+	private getZoneAreas(deviceId: string, zoneNumber: number): number[] | null {
+		const configured = this.getZoneConfig(deviceId, zoneNumber)?.areas;
+		if (Array.isArray(configured) && configured.length > 0) {
+			return configured;
+		}
+		const areaNumbers = this.areas.filter(a => a.deviceId === deviceId).map(a => a.areaNumber);
+		return areaNumbers.length === 1 ? areaNumbers : null;
+	}
+
+	/**
+	 * Bypass the open zones of the area, then arm. Resolves once the arm command is sent,
+	 * use getAreaConfirmation() to follow it up. The bypasses are undone when the area
+	 * disarms, or as soon as bypassing or arming fails.
+	 */
+	public async forceArmArea(area: OlarmArea, action: OlarmAreaAction, source = "homebridge"): Promise<boolean> {
+		const key = `${area.deviceId}:${area.areaNumber}`;
+		try {
+			const { zones: openZones, unassigned } = this.getOpenZones(area);
+			if (unassigned.length > 0) {
+				this.log.error(`Not force arming area ${area.areaNumber} (${area.areaName}): open zones ${unassigned.map(z => `${z.zoneNumber} (${z.zoneName})`).join(", ")} may belong to another area. Set their areas in the zone config.`);
+				return false;
+			}
+			if (openZones.length > 0) {
+				this.log.info(`Force arming area ${area.areaNumber} (${area.areaName}), bypassing zones ${openZones.map(z => `${z.zoneNumber} (${z.zoneName})`).join(", ")}`);
+				for (const zone of openZones) {
+					// Recorded before sending, so a bypass that went through is undone on failure
+					this.forceBypassedZones.set(key, [...new Set([...(this.forceBypassedZones.get(key) ?? []), zone.zoneNumber])]);
+					if (!(await this.setZoneBypass(zone, true))) {
+						this.restoreForceBypasses(area);
+						return false;
+					}
+				}
+				const bypassed = openZones.map(z => z.zoneNumber);
+				if (!(await this.waitForBypass(area.deviceId, bypassed))) {
+					this.log.error(`Zones ${bypassed.join(", ")} did not report bypassed in time, not arming area ${area.areaNumber} (${area.areaName}).`);
+					this.restoreForceBypasses(area);
+					return false;
+				}
+			}
+			if (!(await this.setArea(area, action, source))) {
+				this.restoreForceBypasses(area);
+				return false;
+			}
+			this.getAreaConfirmation(area)?.catch(() => this.restoreFailedForceArm(area));
+			return true;
+		} catch (error) {
+			this.log.error(`Force arming area ${area.areaNumber} (${area.areaName}) failed:`, error);
+			this.restoreForceBypasses(area);
+			return false;
+		}
+	}
+
+	// The arm was rejected or timed out. An area that armed after all keeps its bypasses until it disarms.
+	private restoreFailedForceArm(area: OlarmArea) {
+		const current = this.areas.find(a => a.deviceId === area.deviceId && a.areaNumber === area.areaNumber);
+		if (current && current.areaState !== OlarmAreaState.Disarmed && current.areaState !== OlarmAreaState.NotReady) {
+			return;
+		}
+		this.log.warn(`Force arming area ${area.areaNumber} (${area.areaName}) failed, restoring the bypassed zones.`);
+		this.restoreForceBypasses(area);
+	}
+
+	// Resolves true once the zones report bypassed, false after the command timeout
+	private waitForBypass(deviceId: string, zoneNumbers: number[]): Promise<boolean> {
+		const deadline = Date.now() + this.commandTimeout;
+		return new Promise((resolve) => {
+			const check = () => {
+				const pending = this.zones.filter(z => z.deviceId === deviceId && zoneNumbers.includes(z.zoneNumber) && z.zoneState !== OlarmZoneState.Bypassed);
+				if (pending.length === 0) {
+					resolve(true);
+				} else if (Date.now() >= deadline) {
+					resolve(false);
+				} else {
+					setTimeout(check, BYPASS_POLL_INTERVAL_MS);
+				}
+			};
+			check();
+		});
+	}
+
+	// Unbypass the zones force arm bypassed for an area, unless another force armed area still needs them
+	private restoreForceBypasses(area: OlarmArea) {
+		const key = `${area.deviceId}:${area.areaNumber}`;
+		const zoneNumbers = this.forceBypassedZones.get(key);
+		if (!zoneNumbers) {
+			return;
+		}
+		this.forceBypassedZones.delete(key);
+		const stillNeeded = new Set<number>();
+		for (const [otherKey, numbers] of this.forceBypassedZones) {
+			if (otherKey.startsWith(`${area.deviceId}:`)) {
+				numbers.forEach(n => stillNeeded.add(n));
+			}
+		}
+		for (const zoneNumber of zoneNumbers.filter(n => !stillNeeded.has(n))) {
+			const zone = this.zones.find(z => z.deviceId === area.deviceId && z.zoneNumber === zoneNumber);
+			if (!zone) {
+				continue;
+			}
+			this.log.info(`Restoring zone ${zone.zoneNumber} (${zone.zoneName}) bypassed by force arm of area ${area.areaNumber}.`);
+			this.setZoneBypass(zone, false).then((success) => {
+				if (!success) {
+					this.log.error(`Could not unbypass zone ${zone.zoneNumber} (${zone.zoneName}) after force arm, unbypass it manually.`);
+				}
+			});
+		}
+	}
+
+	// Settles when the panel confirms the last command for an area, rejects on timeout
+	public getAreaConfirmation(area: OlarmArea): Promise<CommandResult> | undefined {
+		return this.commandTracker.get(area.deviceId, area.areaNumber);
+	}
+
+	// Drop pending commands, called on shutdown
+	public clearPendingCommands() {
+		this.commandTracker.clear();
+	}
+
+	// Method to handle PGM actions (open, close or pulse an output)
+	public async setPgm(pgm: OlarmPgm, action: OlarmPgmAction): Promise<boolean> {
+		this.log.info(`Publishing action "${action}" for PGM ${pgm.pgmNumber} (${pgm.pgmName}) on device ${pgm.deviceId}`);
+		const success = await this.publishControl(pgm.deviceId, [action, pgm.pgmNumber]);
+		if (success) {
+			this.log.info(`Successfully published action "${action}" for PGM ${pgm.pgmName}. Waiting for state confirmation via MQTT...`);
+		}
+		return success;
+	}
+
+	// Method to bypass or unbypass a zone
+	public async setZoneBypass(zone: OlarmZone, bypass: boolean): Promise<boolean> {
+		const action = bypass ? OlarmZoneAction.Bypass : OlarmZoneAction.Unbypass;
+		this.log.info(`Publishing action "${action}" for zone ${zone.zoneNumber} (${zone.zoneName}) on device ${zone.deviceId}`);
+		const success = await this.publishControl(zone.deviceId, [action, zone.zoneNumber]);
+		if (success) {
+			this.log.info(`Successfully published action "${action}" for zone ${zone.zoneName}. Waiting for state confirmation via MQTT...`);
+		}
+		return success;
+	}
+
+	// Method to fire a utility key
+	public async triggerUkey(ukey: OlarmUkey): Promise<boolean> {
+		const action = OlarmUkeyAction.Activate;
+		this.log.info(`Publishing action "${action}" for utility key ${ukey.ukeyNumber} (${ukey.ukeyName}) on device ${ukey.deviceId}`);
+		return this.publishControl(ukey.deviceId, [action, ukey.ukeyNumber]);
+	}
+
+	// Method to raise a panic, fire or medical alarm
+	public async triggerEmergency(deviceId: string, action: OlarmEmergencyAction, areaNumber: number): Promise<boolean> {
+		this.log.warn(`Raising ${action} emergency in area ${areaNumber} on device ${deviceId}`);
+		const success = await this.publishControl(deviceId, [action, areaNumber]);
+		if (success) {
+			this.log.warn(`Published ${action} emergency for device ${deviceId}.`);
+		}
+		return success;
+	}
+
+	// Publish a command on the device's control topic, resolves false if it could not be sent
+	private async publishControl(deviceId: string, data: (string | number)[]): Promise<boolean> {
 		// Retrieve the MQTT client for the device
-		const mqttClient = this.mqttClients.get(area.deviceId);
+		const mqttClient = this.mqttClients.get(deviceId);
+		if ((!mqttClient || !mqttClient.connected) && this.deviceApi) {
+			return this.sendFallbackControl(deviceId, data);
+		}
 		if (!mqttClient || !mqttClient.connected) {
-			this.log.error(`Cannot set area: MQTT client not found or not connected for deviceId ${area.deviceId}`);
+			this.log.error(`Cannot send command: MQTT client not found or not connected for deviceId ${deviceId}`);
 			return false;
 		}
 
 		// Get the device object to retrieve IMEI
-		const device = this.devicesMap.get(area.deviceId);
+		const device = this.devicesMap.get(deviceId);
 		if (!device) {
-			this.log.error(`Cannot set area: Device details not found for deviceId ${area.deviceId}`);
+			this.log.error(`Cannot send command: Device details not found for deviceId ${deviceId}`);
 			return false;
 		}
 
@@ -175,18 +1100,15 @@ export class Olarm {
 		const payload = {
 			method: "POST",
 			// userIndex and userId might be needed by Olarm's backend, include if necessary
-			// userIndex: this.auth.getUserIndex()?.toString(),
-			// userId: this.auth.getUserId(),
-			data: [
-				action, // e.g., "arm", "disarm", "stay", "sleep"
-				area.areaNumber // The number of the area (e.g., 1, 2)
-			],
+			// userIndex: auth.getUserIndex()?.toString(),
+			// userId: auth.getUserId(),
+			data: data,
 		};
 
 		const message = JSON.stringify(payload);
 
-		this.log.info(`Publishing action "${action}" for area ${area.areaNumber} (${area.areaName}) on device ${device.IMEI} to topic ${topic}`);
-		this.log.debug(`Publish payload: ${message}`);
+		this.log.debug(`Publishing to topic ${topic} on device ${device.IMEI}, payload: ${message}`);
+		this.capture?.record(deviceId, "out", topic, message);
 
 		// Publish the action message with QoS 1
 		return new Promise((resolve) => {
@@ -195,11 +1117,26 @@ export class Olarm {
 					this.log.error(`Failed to publish action to topic ${topic}:`, error);
 					resolve(false);
 				} else {
-					this.log.info(`Successfully published action "${action}" for area ${area.areaName}. Waiting for state confirmation via MQTT...`);
 					// Optimistically update internal state? No, wait for confirmation message.
 					resolve(true);
 				}
 			});
 		});
 	}
-}
\ No newline at end of file
+
+	// Send a command over the HTTP device API, then fetch the state so it can be confirmed
+	private async sendFallbackControl(deviceId: string, data: (string | number)[]): Promise<boolean> {
+		this.log.warn(`MQTT is not connected for device ${deviceId}, sending ${JSON.stringify(data)} over the HTTP device API.`);
+		const success = await this.deviceApi!.sendAction(deviceId, data);
+		if (success) {
+			setTimeout(() => this.fetchFallbackState(deviceId), FALLBACK_CONFIRM_DELAY_MS);
+		}
+		return success;
+	}
+}
+
+// Pick the config override for a device, preferring a device-specific entry over a global one
+function findConfigOverride<T extends { deviceId?: string }>(configs: T[], deviceId: string): T | undefined {
+	const matches = configs.filter(c => !c.deviceId || c.deviceId === deviceId);
+	return matches.find(c => c.deviceId === deviceId) ?? matches[0];
+}
@@ -0,0 +1,123 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { OlarmPgm, OlarmPgmAction, OlarmPgmMode } from "./types";
+
+// How long a pulse switch stays on in HomeKit before resetting itself
+const PULSE_RESET_MS = 1000;
+
+/**
+ * PGM Accessory
+ * Exposes a programmable output (gate motor, garage door, lights) as a Switch.
+ * In pulse mode the switch is momentary and turns itself off after firing.
+ */
+export class OlarmPgmPlatformAccessory {
+	private service: Service;
+	private pgmOn: boolean;
+	private pulseResetTimer: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		const pgm = this.accessory.context.pgm as OlarmPgm;
+		this.pgmOn = pgm.pgmOn ?? false;
+
+		this.platform.log.debug(`Initializing PGM accessory: ${this.accessory.displayName}, mode: ${pgm.pgmMode}, initial state: ${this.pgmOn}`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm PGM")
+			.setCharacteristic(
+				this.platform.Characteristic.SerialNumber,
+				`${pgm.deviceId}-PGM${pgm.pgmNumber}`
+			);
+
+		this.service =
+			this.accessory.getService(this.platform.Service.Switch) ||
+			this.accessory.addService(this.platform.Service.Switch, this.accessory.displayName);
+
+		this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+		this.service
+			.getCharacteristic(this.platform.Characteristic.On)
+			.onGet(this.handleOnGet.bind(this))
+			.onSet(this.handleOnSet.bind(this));
+
+		this.service.updateCharacteristic(this.platform.Characteristic.On, this.getDisplayedState());
+	}
+
+	private isPulse(): boolean {
+		return (this.accessory.context.pgm as OlarmPgm).pgmMode === OlarmPgmMode.Pulse;
+	}
+
+	// Pulse switches always rest in the off position
+	private getDisplayedState(): boolean {
+		return this.isPulse() ? this.pulseResetTimer !== null : this.pgmOn;
+	}
+
+	// --- Method called by the platform when MQTT state changes ---
+	public updateStateFromExternal(pgm: OlarmPgm) {
+		if (pgm.pgmOn !== this.pgmOn) {
+			this.platform.log.debug(`[${this.accessory.displayName}] PGM state changed: ${this.pgmOn} -> ${pgm.pgmOn}`);
+		}
+		this.pgmOn = pgm.pgmOn;
+		this.service.updateCharacteristic(this.platform.Characteristic.On, this.getDisplayedState());
+	}
+
+	async handleOnGet(): Promise<CharacteristicValue> {
+		return this.getDisplayedState();
+	}
+
+	async handleOnSet(value: CharacteristicValue) {
+		const pgm = this.accessory.context.pgm as OlarmPgm;
+		const turnOn = value as boolean;
+
+		if (this.isPulse()) {
+			if (!turnOn) {
+				// Nothing to do, the switch resets itself
+				return;
+			}
+			await this.sendAction(pgm, OlarmPgmAction.Pulse);
+			// A second press restarts the reset, the first one must not cut it short
+			if (this.pulseResetTimer) {
+				clearTimeout(this.pulseResetTimer);
+			}
+			this.pulseResetTimer = setTimeout(() => {
+				this.pulseResetTimer = null;
+				this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+			}, PULSE_RESET_MS);
+			return;
+		}
+
+		await this.sendAction(pgm, turnOn ? OlarmPgmAction.Open : OlarmPgmAction.Close);
+		// Keep the requested state until the next alarmPayload reconciles it
+		this.pgmOn = turnOn;
+	}
+
+	// Cancel a pending pulse reset, called on shutdown and when the accessory is removed
+	public stop() {
+		if (this.pulseResetTimer) {
+			clearTimeout(this.pulseResetTimer);
+			this.pulseResetTimer = null;
+		}
+	}
+
+	private async sendAction(pgm: OlarmPgm, action: OlarmPgmAction) {
+		this.platform.log.info(`[${this.accessory.displayName}] SET On: sending "${action}"`);
+		let success = false;
+		try {
+			success = await this.platform.olarm!.setPgm(pgm, action);
+		} catch (error) {
+			this.platform.log.error(`[${this.accessory.displayName}] Error sending command "${action}":`, error);
+		}
+		if (!success) {
+			this.platform.log.error(`[${this.accessory.displayName}] Failed to send command "${action}" to Olarm.`);
+			// Revert the switch to the last known state
+			setImmediate(() => this.service.updateCharacteristic(this.platform.Characteristic.On, this.getDisplayedState()));
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+	}
+}
@@ -10,10 +10,48 @@ import type {
 
 import { PLATFORM_NAME, PLUGIN_NAME } from "./settings";
 import { OlarmAreaPlatformAccessory } from "./platformAccessory";
+import { OlarmZonePlatformAccessory } from "./zoneAccessory";
+import { OlarmPgmPlatformAccessory } from "./pgmAccessory";
+import { OlarmUkeyPlatformAccessory } from "./ukeyAccessory";
+import { OlarmPowerPlatformAccessory } from "./powerAccessory";
+import { OlarmAllAreasPlatformAccessory } from "./allAreasAccessory";
+import { OlarmEmergencyPlatformAccessory } from "./emergencyAccessory";
+import { OlarmConnectivityPlatformAccessory } from "./connectivityAccessory";
+import {
+	CustomCharacteristic,
+	createAlarmSourceCharacteristic,
+	createLastSeenCharacteristic,
+	createSignalPathCharacteristic,
+} from "./characteristics";
 import { Olarm } from "./olarm";
-import mqtt, { MqttClient, IClientOptions } from "mqtt";
+import { MqttClient } from "mqtt";
+import { MqttSupervisor } from "./mqttSupervisor";
+import { OlarmEndpoints, resolveEndpoints } from "./endpoints";
+import { MqttCapture, replayCapture } from "./capture";
+import { EventHistory } from "./eventHistory";
+import { WebhookDispatcher } from "./webhooks";
+import { RestApi } from "./restApi";
+import { DeviceApi } from "./deviceApi";
+import * as path from "path";
 import { Auth, Device } from "./auth";
-import { OlarmArea, OlarmAreaState } from "./types"; // Import OlarmAreaState
+import { TokenStore, getLegacyTokensFilePath, getTokensFilePath } from "./tokenStore";
+import { AccountConfig, DeviceConfig, EmergencyConfig, OlarmArea, OlarmAreaGroup, OlarmAreaState, OlarmConnectivity, OlarmDeviceChanges, OlarmEmergency, OlarmEmergencyAction, OlarmPgm, OlarmPgmMode, OlarmPower, OlarmUkey, OlarmZone, OlarmZoneType } from "./types"; // Import OlarmAreaState
+
+// Quiet time before the status is requested again. The state counts as stale
+// (HomeKit shows No Response) when that request goes unanswered for as long again.
+const DEFAULT_STATUS_INTERVAL_S = 300;
+
+// Seconds between HTTP state fetches while MQTT is down
+const DEFAULT_FALLBACK_POLL_INTERVAL_S = 30;
+
+// Seconds between device list refreshes, which pick up added and removed communicators
+const DEFAULT_DEVICE_REFRESH_INTERVAL_S = 3600;
+
+// One Olarm login and the Auth that keeps its tokens fresh
+interface OlarmAccount {
+	name: string; // For log messages
+	auth: Auth;
+}
 
 /**
  * HomebridgePlatform
@@ -24,15 +62,36 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 	public readonly Service: typeof Service = this.api.hap.Service;
 	public readonly Characteristic: typeof Characteristic =
 		this.api.hap.Characteristic;
+	public readonly AlarmSource: CustomCharacteristic = createAlarmSourceCharacteristic(this.api);
+	public readonly SignalPath: CustomCharacteristic = createSignalPathCharacteristic(this.api);
+	public readonly LastSeen: CustomCharacteristic = createLastSeenCharacteristic(this.api);
 
 	public olarm: Olarm | undefined;
-	private auth: Auth | undefined;
+	private accounts: OlarmAccount[] = [];
+	private deviceAccounts: Map<string, OlarmAccount> = new Map(); // Keyed by device ID
+	private deviceListsComplete = false; // Every configured account logged in and listed its devices
 	private mqttClients: Map<string, MqttClient> = new Map();
+	private mqttSupervisors: Map<string, MqttSupervisor> = new Map();
+	private readonly endpoints: OlarmEndpoints;
+	private capture: MqttCapture | undefined;
+	private history: EventHistory | undefined;
+	private webhooks: WebhookDispatcher | undefined;
+	private restApi: RestApi | undefined;
+	private shuttingDown = false;
+	private deviceRefreshTimer: NodeJS.Timeout | null = null;
+	private deviceRefresh: Promise<OlarmDeviceChanges> | null = null; // Refresh in progress
 
 	// this is used to track restored cached accessories
 	public readonly accessories: PlatformAccessory[] = [];
 	// Map to hold accessory handlers, keyed by accessory UUID
 	private readonly accessoryHandlers: Map<string, OlarmAreaPlatformAccessory> = new Map();
+	private readonly zoneHandlers: Map<string, OlarmZonePlatformAccessory> = new Map();
+	private readonly pgmHandlers: Map<string, OlarmPgmPlatformAccessory> = new Map();
+	private readonly ukeyHandlers: Map<string, OlarmUkeyPlatformAccessory> = new Map();
+	private readonly powerHandlers: Map<string, OlarmPowerPlatformAccessory> = new Map();
+	private readonly allAreasHandlers: Map<string, OlarmAllAreasPlatformAccessory> = new Map();
+	private readonly emergencyHandlers: Map<string, OlarmEmergencyPlatformAccessory> = new Map();
+	private readonly connectivityHandlers: Map<string, OlarmConnectivityPlatformAccessory> = new Map();
 	private initialDeviceDiscoveryDone = false; // Flag to prevent multiple discoveries on message flood
 
 
@@ -41,6 +100,7 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 		public readonly config: PlatformConfig,
 		public readonly api: API
 	) {
+		this.endpoints = resolveEndpoints(this.config.endpoints);
 		this.log.debug("Finished initializing platform:", this.config.name);
 
 		// Register cleanup on shutdown
@@ -62,34 +122,54 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 		try {
 			this.log.info("Initializing Olarm Plugin...");
 
-			// Initialize Auth
-			this.auth = new Auth({
-				userEmailPhone: this.config.userEmailPhone,
-				userPass: this.config.userPass,
-				log: this.log,
-			});
+			if (this.config.replay?.file) {
+				await this.initializeReplay();
+				return;
+			}
 
-			this.log.info("Initializing Authentication...");
-			await this.auth.initialize();
-			this.log.info("Authentication successful.");
+			if (this.config.capture?.enabled) {
+				const directory = this.config.capture.directory || path.join(this.api.user.storagePath(), "olarm-captures");
+				this.capture = new MqttCapture(this.log, directory);
+			}
+
+			if (this.config.history?.enabled !== false) {
+				this.history = new EventHistory({
+					log: this.log,
+					directory: path.join(this.api.user.storagePath(), "olarm-history"),
+					maxFileSize: (this.config.history?.maxFileSize ?? 1024) * 1024,
+					maxFiles: this.config.history?.maxFiles ?? 5,
+				});
+			}
+
+			if (Array.isArray(this.config.webhooks) && this.config.webhooks.length > 0) {
+				this.webhooks = new WebhookDispatcher({
+					log: this.log,
+					webhooks: this.config.webhooks,
+					deadLetterFile: path.join(this.api.user.storagePath(), "olarm-webhooks-dead-letter.jsonl"),
+				});
+			}
+
+			// Initialize Auth for every account
+			await this.initializeAccounts();
+			if (this.accounts.length === 0) {
+				throw new Error("Could not log in to any Olarm account.");
+			}
 
 			// Initialize Olarm service wrapper
-			this.olarm = new Olarm({
-				auth: this.auth,
-				log: this.log,
-				mqttClients: this.mqttClients,
-				// Pass a callback to trigger accessory updates when state changes
-				onStateUpdate: () => this.updateAccessoryStates(),
-			});
+			const devices = this.getEnabledDevices();
+			this.olarm = this.createOlarm(devices);
+			await this.startRestApi();
 
 			// Initialize MQTT and wait for connections before discovering devices
-			await this.initializeOlarmAndMQTT();
+			await this.initializeOlarmAndMQTT(devices);
 
 			// Initial discovery after MQTT setup
 			this.log.info("Performing initial device discovery...");
 			this.discoverDevices();
 			this.initialDeviceDiscoveryDone = true; // Mark initial discovery attempt as done
 
+			this.startDeviceRefresh();
+
 		} catch (error) {
 			this.log.error("Initialization error:", error);
 			if (error instanceof Error) {
@@ -98,12 +178,160 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 		}
 	}
 
-	private async initializeOlarmAndMQTT() {
-		// Use devices from Auth instance
-		const devices = this.auth!.getDevices();
+	/**
+	 * The accounts from config. The top-level email and password are the first account.
+	 * The legacy token file is where earlier versions kept the account's tokens.
+	 */
+	private getAccountConfigs(): { account: AccountConfig; legacyTokensFilePath: string }[] {
+		const accounts: { account: AccountConfig; legacyTokensFilePath: string }[] = [];
+		if (this.config.userEmailPhone && this.config.userPass) {
+			accounts.push({
+				account: { name: this.config.name, userEmailPhone: this.config.userEmailPhone, userPass: this.config.userPass },
+				legacyTokensFilePath: getLegacyTokensFilePath(),
+			});
+		}
+		const configured: AccountConfig[] = Array.isArray(this.config.accounts) ? this.config.accounts : [];
+		for (const account of configured) {
+			if (!account?.userEmailPhone || !account.userPass) {
+				this.log.warn(`Account ${account?.name || account?.userEmailPhone || "(unnamed)"} is missing an email/phone or password, skipping it.`);
+				continue;
+			}
+			if (accounts.some(a => a.account.userEmailPhone.trim().toLowerCase() === account.userEmailPhone.trim().toLowerCase())) {
+				this.log.warn(`Account ${account.userEmailPhone} is configured more than once, skipping the duplicate.`);
+				continue;
+			}
+			accounts.push({ account: account, legacyTokensFilePath: getLegacyTokensFilePath(account.userEmailPhone) });
+		}
+		return accounts;
+	}
+
+	// Log in to every account, an account that fails is logged and left out
+	private async initializeAccounts() {
+		for (const { account, legacyTokensFilePath } of this.getAccountConfigs()) {
+			const name = account.name || account.userEmailPhone;
+			const auth = new Auth({
+				userEmailPhone: account.userEmailPhone,
+				userPass: account.userPass,
+				log: this.log,
+				endpoints: this.endpoints,
+				tokenStore: new TokenStore({
+					log: this.log,
+					filePath: getTokensFilePath(this.api.user.storagePath(), account.userEmailPhone),
+					userEmailPhone: account.userEmailPhone,
+					legacyFilePath: legacyTokensFilePath,
+					encryptionKey: this.config.tokenEncryptionKey,
+				}),
+			});
+
+			this.log.info(`Initializing Authentication for account ${name}...`);
+			try {
+				await auth.initialize();
+			} catch (error) {
+				auth.stop();
+				this.log.error(`Authentication failed for account ${name}:`, error);
+				continue;
+			}
+			this.log.info(`Authentication successful for account ${name}.`);
+			this.accounts.push({ name: name, auth: auth });
+		}
+		this.deviceListsComplete = this.accounts.length === this.getAccountConfigs().length;
+	}
+
+	/**
+	 * Devices of all accounts with the config overrides applied, hidden devices are left out.
+	 * A device shared with several accounts is only used through the first one.
+	 */
+	private getEnabledDevices(): Device[] {
+		const deviceConfigs: DeviceConfig[] = Array.isArray(this.config.devices) ? this.config.devices : [];
+		const devices: Device[] = [];
+		for (const account of this.accounts) {
+			for (const device of account.auth.getDevices()) {
+				const owner = this.deviceAccounts.get(device.id);
+				if (owner && owner !== account) {
+					this.log.info(`Device ${device.name || device.IMEI} is shared with account ${owner.name}, using it through that account.`);
+					continue;
+				}
+				const deviceConfig = deviceConfigs.find(d => d.deviceId === device.id);
+				if (deviceConfig?.hidden) {
+					this.log.info(`Device ${deviceConfig.name || device.name || device.IMEI} is hidden in config, skipping it.`);
+					continue;
+				}
+				this.deviceAccounts.set(device.id, account);
+				devices.push({ ...device, name: deviceConfig?.name || device.name });
+			}
+		}
+		return devices;
+	}
+
+	private createOlarm(devices: Device[]): Olarm {
+		return new Olarm({
+			devices: devices,
+			log: this.log,
+			mqttClients: this.mqttClients,
+			capture: this.capture,
+			history: this.history,
+			onEvent: (event) => this.webhooks?.dispatch(event),
+			areaConfigs: this.config.areas,
+			zoneConfigs: this.config.zones,
+			pgmConfigs: this.config.pgms,
+			ukeyConfigs: this.config.ukeys,
+			commandTimeout: this.config.commandTimeout ? this.config.commandTimeout * 1000 : undefined,
+			staleTimeout: this.getStatusInterval() * 2,
+			deviceApi: this.createDeviceApi(),
+			fallbackPollInterval: (this.config.httpFallback?.pollInterval ?? DEFAULT_FALLBACK_POLL_INTERVAL_S) * 1000,
+			// Pass a callback to trigger accessory updates when state changes
+			onStateUpdate: () => this.updateAccessoryStates(),
+		});
+	}
 
+	/**
+	 * Replay mode: feed a capture file through Olarm instead of connecting to the cloud.
+	 * Accessories are discovered from the replayed state as usual.
+	 */
+	private async initializeReplay() {
+		const file = this.config.replay.file;
+		this.log.warn(`Replay mode: replaying ${file} instead of connecting to Olarm. Commands will not be sent.`);
+		this.olarm = this.createOlarm([]);
+		const replayed = await replayCapture({
+			file: file,
+			speed: this.config.replay.speed ?? 1,
+			log: this.log,
+			onDevice: (device) => this.olarm!.addDevice(device),
+			onMessage: (deviceId, topic, message) => this.olarm!.processMqttMessage(deviceId, topic, message),
+			isStopped: () => this.shuttingDown,
+		});
+		this.log.info(`Replay: finished, ${replayed} message(s) replayed.`);
+	}
+
+	// Start the local REST API if enabled, a failure to start is logged but not fatal
+	private async startRestApi() {
+		const restConfig = this.config.restApi;
+		if (!restConfig?.enabled) {
+			return;
+		}
+		if (!restConfig.apiKey) {
+			this.log.error("REST API: Enabled but no API key is configured, not starting it.");
+			return;
+		}
+		this.restApi = new RestApi({
+			log: this.log,
+			olarm: this.olarm!,
+			apiKey: restConfig.apiKey,
+			host: restConfig.host || "127.0.0.1",
+			port: restConfig.port ?? 8787,
+			onRefreshDevices: () => this.refreshDevices(),
+		});
+		try {
+			await this.restApi.start();
+		} catch (error) {
+			this.log.error("REST API: Failed to start:", error);
+			this.restApi = undefined;
+		}
+	}
+
+	private async initializeOlarmAndMQTT(devices: Device[]) {
 		if (!devices || devices.length === 0) {
-			this.log.error("No devices found for this user.");
+			this.log.error("No devices found for the configured account(s).");
 			return;
 		}
 
@@ -120,147 +348,142 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 		}
 	}
 
-	private initializeMQTTForDevice(device: Device): Promise<void> {
-		return new Promise((resolve, reject) => {
-			this.log.info(`Initializing MQTT for device: ${device.IMEI} (ID: ${device.id})`);
-			// MQTT Connection Options
-			const tokens = this.auth!.getTokens();
-			if (!tokens.accessToken) {
-				this.log.error(`No access token available for MQTT connection for device ${device.IMEI}`);
-				return reject(new Error(`No access token for device ${device.IMEI}`));
-			}
-
-			const clientId = `native-app-oauth-${device.IMEI}`;
-			const mqttOptions: IClientOptions = {
-				host: "mqtt-ws.olarm.com",
-				port: 443,
-				username: "native_app",
-				protocol: "wss",
-				password: tokens.accessToken,
-				clientId: clientId,
-				protocolVersion: 4,
-				keepalive: 60,
-				reconnectPeriod: 1000 * 5,
-				connectTimeout: 1000 * 10,
-				clean: true,
-			};
-
-			this.log.debug(`[MQTT ${device.IMEI}] Options:`, { ...mqttOptions, password: '***' });
-
-			// --- Check for existing client ---
-			let existingClient = this.mqttClients.get(device.id);
-			if (existingClient) {
-				if (existingClient.connected) {
-					this.log.info(`[MQTT ${device.IMEI}] Client already connected.`);
-					resolve(); // Already connected, nothing more to do for this attempt
-					return;
-				} else {
-					// Client exists but is not connected (e.g., closed, reconnecting failed)
-					this.log.warn(`[MQTT ${device.IMEI}] Existing client found but not connected. Ending it before creating a new one.`);
-					existingClient.end(true); // Force close the old client
-					this.mqttClients.delete(device.id); // Remove from map
-				}
-			}
-			// --- End check for existing client ---
-
-
-			// --- Create and connect new client ---
-			const mqttClient = mqtt.connect(mqttOptions);
-
-			// Store the new client immediately
-			this.mqttClients.set(device.id, mqttClient);
-
+	private startDeviceRefresh() {
+		const interval = this.config.deviceRefreshInterval ?? DEFAULT_DEVICE_REFRESH_INTERVAL_S;
+		if (interval <= 0) {
+			return;
+		}
+		this.deviceRefreshTimer = setInterval(() => {
+			this.refreshDevices().catch((error) => this.log.error("Device refresh failed:", error));
+		}, interval * 1000);
+	}
 
-			// --- Event Handlers ---
+	/**
+	 * Fetch the device list of every account again and apply the differences:
+	 * new devices get an MQTT connection (their accessories follow with the first
+	 * status), devices that are gone are disconnected and their accessories
+	 * unregistered. Calls during a refresh share its result.
+	 */
+	public refreshDevices(): Promise<OlarmDeviceChanges> {
+		if (!this.deviceRefresh) {
+			this.deviceRefresh = this.applyDeviceChanges().finally(() => {
+				this.deviceRefresh = null;
+			});
+		}
+		return this.deviceRefresh;
+	}
 
-			// Handler for successful initial connection
-			const onConnect = (connack: mqtt.IConnackPacket) => {
-				this.log.info(`[MQTT ${device.IMEI}] Connected (ClientId: ${clientId}). Connack:`, connack);
-				mqttClient.removeListener('error', onInitialError); // Remove initial error handler
+	private async applyDeviceChanges(): Promise<OlarmDeviceChanges> {
+		const changes: OlarmDeviceChanges = { added: [], removed: [] };
+		if (!this.olarm) {
+			throw new Error("Olarm service not initialized.");
+		}
 
-				// Setup persistent error handler
-				mqttClient.on('error', onPersistentError);
+		this.log.debug("Refreshing the device lists...");
+		let complete = this.accounts.length === this.getAccountConfigs().length;
+		for (const account of this.accounts) {
+			try {
+				await account.auth.refreshDevices();
+			} catch (error) {
+				// getEnabledDevices() falls back to the devices fetched last time
+				this.log.error(`Failed to refresh the devices of account ${account.name}, keeping the known ones:`, error);
+				complete = false;
+			}
+		}
+		this.deviceListsComplete = complete;
+		if (this.shuttingDown) {
+			return changes;
+		}
 
-				// Subscribe to the topic
-				const subTopic = `so/app/v1/${device.IMEI}`;
-				mqttClient.subscribe(subTopic, { qos: 1 }, (err, granted) => {
-					if (err) {
-						this.log.error(`[MQTT ${device.IMEI}] Failed to subscribe to topic ${subTopic}:`, err);
-						mqttClient.end(true);
-						this.mqttClients.delete(device.id);
-						// Since connection was initially successful, we resolve, but log error.
-						// Or potentially reject here if subscription is critical? Let's resolve for now.
-						resolve();
-					} else {
-						this.log.info(`[MQTT ${device.IMEI}] Subscribed to topic: ${subTopic}. Granted:`, granted);
-						publishInitialGet(); // Publish GET after successful subscription
-						resolve(); // Resolve the promise once connected and subscribed
-					}
-				});
-			};
+		const knownDevices = this.olarm.getDevices();
+		const previousAccounts = new Map(this.deviceAccounts);
+		this.deviceAccounts.clear();
+		const devices = this.getEnabledDevices();
+
+		for (const device of knownDevices) {
+			if (!devices.some(d => d.id === device.id)) {
+				this.log.warn(`Device ${device.name || device.IMEI} is no longer available, removing it.`);
+				this.stopMQTTForDevice(device.id);
+				this.olarm.removeDevice(device.id);
+				changes.removed.push(device.id);
+			}
+		}
 
-			// Handler for error during initial connection attempt
-			const onInitialError = (error: Error) => {
-				this.log.error(`[MQTT ${device.IMEI}] Initial Connection Error (ClientId: ${clientId}):`, error);
-				if ((error as any).code === 5) {
-					this.log.error(`[MQTT ${device.IMEI}] Connection refused (Code 5) - Check ClientID, Username, Password/Token, Protocol.`);
-				}
-				mqttClient.end(true); // Ensure client is closed
-				this.mqttClients.delete(device.id); // Clean up map
-				reject(error); // Reject promise on initial connection error
-			};
-
-			// Handler for errors *after* successful connection
-			const onPersistentError = (error: Error) => {
-				this.log.error(`[MQTT ${device.IMEI}] Persistent Client Error (ClientId: ${clientId}):`, error);
-				// Log only, rely on reconnectPeriod or manual intervention
-			};
-
-			// Function to publish the initial GET request
-			const publishInitialGet = () => {
-				const statusTopic = `si/app/v2/${device.IMEI}/status`;
-				const message = JSON.stringify({ method: "GET" });
-				mqttClient.publish(statusTopic, message, { qos: 1, retain: false }, (error) => {
-					if (error) {
-						this.log.error(`[MQTT ${device.IMEI}] Failed to publish GET request to topic ${statusTopic}:`, error);
-					} else {
-						this.log.info(`[MQTT ${device.IMEI}] Published GET request to topic ${statusTopic}`);
-					}
-				});
-			};
-
-			// Attach initial handlers
-			mqttClient.once('connect', onConnect);
-			mqttClient.once('error', onInitialError); // Catches errors during the connect() call itself
-
-			// Attach persistent handlers
-			mqttClient.on('message', (topic, message) => {
-				const messageString = message.toString();
-				this.log.debug(`[MQTT ${device.IMEI}] Message received on topic ${topic}: ${messageString.substring(0, 100)}...`);
-				try {
-					this.olarm!.processMqttMessage(device.id, topic, messageString);
-				} catch (parseError) {
-					this.log.error(`[MQTT ${device.IMEI}] Error processing message on topic ${topic}:`, parseError);
-				}
+		for (const device of devices) {
+			const known = knownDevices.some(d => d.id === device.id);
+			this.olarm.addDevice(device); // Also picks up renamed zones and PGMs
+			if (!known) {
+				this.log.info(`Found new device ${device.name || device.IMEI}, connecting to it.`);
+				changes.added.push(device.id);
+			} else if (previousAccounts.get(device.id) !== this.deviceAccounts.get(device.id)) {
+				// A shared device whose account lost access, carry on through another account
+				this.log.info(`Device ${device.name || device.IMEI} is now used through account ${this.deviceAccounts.get(device.id)!.name}, reconnecting.`);
+				this.stopMQTTForDevice(device.id);
+			} else {
+				continue;
+			}
+			this.initializeMQTTForDevice(device).catch((error) => {
+				this.log.error(`MQTT connection for device ${device.IMEI} failed, retrying in the background:`, error);
 			});
+		}
 
-			mqttClient.on('reconnect', () => {
-				this.log.info(`[MQTT ${device.IMEI}] Attempting to reconnect...`);
-			});
+		if (changes.removed.length > 0) {
+			this.discoverDevices();
+		}
+		if (changes.added.length > 0 || changes.removed.length > 0) {
+			this.log.info(`Device refresh: ${changes.added.length} added, ${changes.removed.length} removed.`);
+		}
+		return changes;
+	}
 
-			mqttClient.on('offline', () => {
-				this.log.warn(`[MQTT ${device.IMEI}] Client is offline.`);
-			});
+	private stopMQTTForDevice(deviceId: string) {
+		this.mqttSupervisors.get(deviceId)?.stop();
+		this.mqttSupervisors.delete(deviceId);
+		this.mqttClients.delete(deviceId);
+	}
 
-			mqttClient.on('close', () => {
-				this.log.info(`[MQTT ${device.IMEI}] Connection closed.`);
-				// Optionally remove from map if not relying on auto-reconnect,
-				// but given reconnectPeriod is set, it's likely better to leave it.
+	private initializeMQTTForDevice(device: Device): Promise<void> {
+		this.log.info(`Initializing MQTT for device: ${device.IMEI} (ID: ${device.id})`);
+		this.capture?.addDevice(device);
+
+		let supervisor = this.mqttSupervisors.get(device.id);
+		if (!supervisor) {
+			supervisor = new MqttSupervisor({
+				device: device,
+				auth: this.deviceAccounts.get(device.id)!.auth,
+				log: this.log,
+				endpoints: this.endpoints,
+				mqttClients: this.mqttClients,
+				capture: this.capture,
+				onMessage: (deviceId, topic, message) => this.olarm!.processMqttMessage(deviceId, topic, message),
+				statusInterval: this.getStatusInterval(),
+				onConnectionChange: (deviceId, connected) => this.olarm!.setConnected(deviceId, connected),
 			});
+			this.mqttSupervisors.set(device.id, supervisor);
+		}
+		return supervisor.start();
+	}
 
+	// HTTP fallback while MQTT is down, on unless disabled in config. Not used when replaying.
+	private createDeviceApi(): DeviceApi | undefined {
+		if (this.config.replay?.file || this.config.httpFallback?.enabled === false) {
+			return undefined;
+		}
+		return new DeviceApi({
+			log: this.log,
+			endpoints: this.endpoints,
+			getAuth: (deviceId) => this.deviceAccounts.get(deviceId)?.auth,
 		});
 	}
 
+	// ms, 0 when disabled. A replay has no broker to ask.
+	private getStatusInterval(): number {
+		if (this.config.replay?.file) {
+			return 0;
+		}
+		return (this.config.statusInterval ?? DEFAULT_STATUS_INTERVAL_S) * 1000;
+	}
+
 	/**
 	 * This function is invoked when homebridge restores cached accessories from disk at startup.
 	 * It should be used to setup event handlers for characteristics and update respective values.
@@ -277,6 +500,27 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 			this.log.debug(`Re-creating handler for cached accessory ${accessory.displayName}`);
 			const handler = new OlarmAreaPlatformAccessory(this, accessory);
 			this.accessoryHandlers.set(accessory.UUID, handler);
+		} else if (accessory.context.zone) {
+			this.log.debug(`Re-creating zone handler for cached accessory ${accessory.displayName}`);
+			this.zoneHandlers.set(accessory.UUID, new OlarmZonePlatformAccessory(this, accessory));
+		} else if (accessory.context.pgm) {
+			this.log.debug(`Re-creating PGM handler for cached accessory ${accessory.displayName}`);
+			this.pgmHandlers.set(accessory.UUID, new OlarmPgmPlatformAccessory(this, accessory));
+		} else if (accessory.context.ukey) {
+			this.log.debug(`Re-creating utility key handler for cached accessory ${accessory.displayName}`);
+			this.ukeyHandlers.set(accessory.UUID, new OlarmUkeyPlatformAccessory(this, accessory));
+		} else if (accessory.context.power) {
+			this.log.debug(`Re-creating power handler for cached accessory ${accessory.displayName}`);
+			this.powerHandlers.set(accessory.UUID, new OlarmPowerPlatformAccessory(this, accessory));
+		} else if (accessory.context.allAreas) {
+			this.log.debug(`Re-creating All Areas handler for cached accessory ${accessory.displayName}`);
+			this.allAreasHandlers.set(accessory.UUID, new OlarmAllAreasPlatformAccessory(this, accessory));
+		} else if (accessory.context.emergency) {
+			this.log.debug(`Re-creating emergency handler for cached accessory ${accessory.displayName}`);
+			this.emergencyHandlers.set(accessory.UUID, new OlarmEmergencyPlatformAccessory(this, accessory));
+		} else if (accessory.context.connectivity) {
+			this.log.debug(`Re-creating connectivity handler for cached accessory ${accessory.displayName}`);
+			this.connectivityHandlers.set(accessory.UUID, new OlarmConnectivityPlatformAccessory(this, accessory));
 		} else {
 			this.log.warn(`Cached accessory ${accessory.displayName} is missing 'area' context. Handler not created. It might be removed if not rediscovered.`);
 		}
@@ -293,7 +537,7 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 			return;
 		}
 
-		const olarmAreas = this.olarm.getAreas(); // Get currently known areas
+		const olarmAreas = this.getExposedAreas(); // Get currently known areas
 
 		if (olarmAreas.length === 0 && !this.initialDeviceDiscoveryDone) {
 			this.log.debug("No areas reported by Olarm service yet. Waiting for initial state...");
@@ -326,6 +570,7 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 					`Restoring/Updating existing accessory: ${existingAccessory.displayName} (UUID: ${uuid})`
 				);
 
+				const previousState = (existingAccessory.context.area as OlarmArea | undefined)?.areaState;
 				existingAccessory.context.area = area;
 				this.api.updatePlatformAccessories([existingAccessory]); // Inform Homebridge of context change
 
@@ -336,7 +581,7 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 					this.accessoryHandlers.set(uuid, handler);
 				}
 				// Update the handler with the latest state just in case it missed an update
-				handler.updateStateFromExternal(area.areaState);
+				this.updateAreaHandler(handler, area, previousState);
 
 
 			} else {
@@ -357,9 +602,17 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 			}
 		}
 
+		this.discoverZones(currentAccessoryUUIDs);
+		this.discoverPgms(currentAccessoryUUIDs);
+		this.discoverUkeys(currentAccessoryUUIDs);
+		this.discoverPower(currentAccessoryUUIDs);
+		this.discoverAllAreas(currentAccessoryUUIDs);
+		this.discoverEmergencies(currentAccessoryUUIDs);
+		this.discoverConnectivity(currentAccessoryUUIDs);
+
 		// Unregister accessories that are no longer reported by the Olarm service
 		const accessoriesToUnregister = this.accessories.filter(
-			(acc) => !currentAccessoryUUIDs.has(acc.UUID)
+			(acc) => !currentAccessoryUUIDs.has(acc.UUID) && this.canUnregister(acc)
 		);
 
 		if (accessoriesToUnregister.length > 0) {
@@ -371,6 +624,14 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 				this.log.info(`Removing accessory: ${acc.displayName} (UUID: ${acc.UUID})`);
 				unregisteredAccessories.push(acc);
 				this.accessoryHandlers.delete(acc.UUID);
+				this.zoneHandlers.delete(acc.UUID);
+				this.pgmHandlers.get(acc.UUID)?.stop();
+				this.pgmHandlers.delete(acc.UUID);
+				this.ukeyHandlers.delete(acc.UUID);
+				this.powerHandlers.delete(acc.UUID);
+				this.allAreasHandlers.delete(acc.UUID);
+				this.emergencyHandlers.delete(acc.UUID);
+				this.connectivityHandlers.delete(acc.UUID);
 			});
 
 			if (unregisteredAccessories.length > 0) {
@@ -383,6 +644,277 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 		}
 	}
 
+	/**
+	 * Whether an accessory missing from discovery may be removed. That is only certain for
+	 * a device that reported its state, or one that is hidden or gone from every account.
+	 * A device that has not reported yet, or whose account failed to log in, keeps its
+	 * cached accessories and with them the rooms, scenes and automations they are part of.
+	 */
+	private canUnregister(accessory: PlatformAccessory): boolean {
+		const deviceId = getAccessoryDeviceId(accessory);
+		if (!deviceId) {
+			return false;
+		}
+		if (this.olarm?.hasReported(deviceId)) {
+			return true;
+		}
+		const gone = this.deviceListsComplete && !(this.olarm?.getDevices() ?? []).some(d => d.id === deviceId);
+		if (!gone) {
+			this.log.debug(`Keeping accessory ${accessory.displayName} until device ${deviceId} reports its state.`);
+		}
+		return gone;
+	}
+
+	/**
+	 * Registers a sensor accessory for each zone when zones are enabled in config.
+	 * Hidden zones are left out so they get unregistered with the other obsolete accessories.
+	 */
+	private discoverZones(currentAccessoryUUIDs: Set<string>) {
+		if (!this.config.exposeZones) {
+			return;
+		}
+
+		for (const zone of this.getExposedZones()) {
+			const uuid = this.getZoneUUID(zone);
+			currentAccessoryUUIDs.add(uuid);
+			// Re-create the handler on type change so it swaps to the right sensor service
+			const existingAccessory = this.accessories.find((accessory) => accessory.UUID === uuid);
+			const typeChanged = !!existingAccessory && existingAccessory.context.zone?.zoneType !== zone.zoneType;
+			this.registerOrUpdateAccessory(uuid, zone.zoneName, "zone", zone, this.zoneHandlers,
+				(accessory) => new OlarmZonePlatformAccessory(this, accessory), typeChanged);
+		}
+	}
+
+	/**
+	 * Registers a switch accessory for each PGM output when PGMs are enabled in config.
+	 */
+	private discoverPgms(currentAccessoryUUIDs: Set<string>) {
+		if (!this.config.exposePgms) {
+			return;
+		}
+
+		for (const pgm of this.getExposedPgms()) {
+			const uuid = this.getPgmUUID(pgm);
+			currentAccessoryUUIDs.add(uuid);
+			this.registerOrUpdateAccessory(uuid, pgm.pgmName, "pgm", pgm, this.pgmHandlers,
+				(accessory) => new OlarmPgmPlatformAccessory(this, accessory));
+		}
+	}
+
+	/**
+	 * Registers a stateless switch accessory for each utility key when ukeys are enabled in config.
+	 */
+	private discoverUkeys(currentAccessoryUUIDs: Set<string>) {
+		if (!this.config.exposeUkeys) {
+			return;
+		}
+
+		for (const ukey of this.getExposedUkeys()) {
+			const uuid = this.getUkeyUUID(ukey);
+			currentAccessoryUUIDs.add(uuid);
+			this.registerOrUpdateAccessory(uuid, ukey.ukeyName, "ukey", ukey, this.ukeyHandlers,
+				(accessory) => new OlarmUkeyPlatformAccessory(this, accessory));
+		}
+	}
+
+	/**
+	 * Registers a power/battery accessory for each device when enabled in config.
+	 */
+	private discoverPower(currentAccessoryUUIDs: Set<string>) {
+		if (!this.config.exposePower) {
+			return;
+		}
+
+		for (const power of this.olarm!.getPower()) {
+			const uuid = this.getPowerUUID(power);
+			currentAccessoryUUIDs.add(uuid);
+			this.registerOrUpdateAccessory(uuid, `${power.deviceName} Power`, "power", power, this.powerHandlers,
+				(accessory) => new OlarmPowerPlatformAccessory(this, accessory));
+		}
+	}
+
+	/**
+	 * Registers an All Areas security system for each device with more than one exposed area
+	 * when enabled in config.
+	 */
+	private discoverAllAreas(currentAccessoryUUIDs: Set<string>) {
+		if (!this.config.exposeAllAreas) {
+			return;
+		}
+
+		for (const group of this.getAllAreasGroups()) {
+			const uuid = this.getAllAreasUUID(group);
+			currentAccessoryUUIDs.add(uuid);
+			this.registerOrUpdateAccessory(uuid, `${group.deviceName} All Areas`, "allAreas", group, this.allAreasHandlers,
+				(accessory) => new OlarmAllAreasPlatformAccessory(this, accessory));
+		}
+	}
+
+	/**
+	 * Registers a communicator status accessory for each device when enabled in config.
+	 */
+	private discoverConnectivity(currentAccessoryUUIDs: Set<string>) {
+		if (!this.config.exposeConnectivity) {
+			return;
+		}
+
+		for (const connectivity of this.olarm!.getConnectivity()) {
+			const uuid = this.getConnectivityUUID(connectivity);
+			currentAccessoryUUIDs.add(uuid);
+			this.registerOrUpdateAccessory(uuid, `${connectivity.deviceName} Connectivity`, "connectivity", connectivity, this.connectivityHandlers,
+				(accessory) => new OlarmConnectivityPlatformAccessory(this, accessory));
+		}
+	}
+
+	/**
+	 * Registers a panic, fire and/or medical switch for each device when enabled in config.
+	 */
+	private discoverEmergencies(currentAccessoryUUIDs: Set<string>) {
+		for (const emergency of this.getEmergencies()) {
+			const uuid = this.api.hap.uuid.generate(`${emergency.deviceId}emergency${emergency.action}`);
+			currentAccessoryUUIDs.add(uuid);
+			this.registerOrUpdateAccessory(uuid, emergency.name, "emergency", emergency, this.emergencyHandlers,
+				(accessory) => new OlarmEmergencyPlatformAccessory(this, accessory));
+		}
+	}
+
+	// Emergency switches from config, named after the action alone when there is a single device
+	private getEmergencies(): OlarmEmergency[] {
+		const config: EmergencyConfig = this.config.emergency ?? {};
+		if (!config.enabled || !this.olarm) {
+			return [];
+		}
+		const actions = Array.isArray(config.actions) && config.actions.length > 0 ? config.actions : Object.values(OlarmEmergencyAction);
+		const devices = this.olarm.getDevices();
+		const emergencies: OlarmEmergency[] = [];
+		for (const device of devices) {
+			const deviceName = device.name || device.IMEI || device.id;
+			for (const action of actions) {
+				const label = action.charAt(0).toUpperCase() + action.slice(1);
+				emergencies.push({
+					deviceId: device.id,
+					deviceName: deviceName,
+					action: action,
+					name: devices.length > 1 ? `${deviceName} ${label}` : label,
+					areaNumber: config.areaNumber ?? 1,
+					confirmSeconds: config.confirmSeconds ?? 0,
+				});
+			}
+		}
+		return emergencies;
+	}
+
+	/**
+	 * Registers a new accessory for the item, or updates the context and handler of a cached one.
+	 */
+	private registerOrUpdateAccessory<T, H extends { updateStateFromExternal(item: T): void }>(
+		uuid: string,
+		displayName: string,
+		contextKey: string,
+		item: T,
+		handlers: Map<string, H>,
+		createHandler: (accessory: PlatformAccessory) => H,
+		recreateHandler = false,
+	) {
+		const existingAccessory = this.accessories.find((accessory) => accessory.UUID === uuid);
+		if (existingAccessory) {
+			existingAccessory.context[contextKey] = item;
+			this.api.updatePlatformAccessories([existingAccessory]);
+
+			let handler = handlers.get(uuid);
+			if (!handler || recreateHandler) {
+				handler = createHandler(existingAccessory);
+				handlers.set(uuid, handler);
+			}
+			handler.updateStateFromExternal(item);
+		} else {
+			this.log.info(`Adding new ${contextKey} accessory: ${displayName} (UUID: ${uuid})`);
+
+			const accessory = new this.api.platformAccessory(displayName, uuid);
+			accessory.context[contextKey] = item;
+
+			handlers.set(uuid, createHandler(accessory));
+
+			this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+			this.accessories.push(accessory);
+		}
+	}
+
+	/**
+	 * Pushes a state update to the handler of an already registered accessory.
+	 * Returns false if the accessory or handler is missing and discovery should run.
+	 */
+	private updateAccessoryState<T, H extends { updateStateFromExternal(item: T): void }>(
+		uuid: string,
+		contextKey: string,
+		item: T,
+		handlers: Map<string, H>,
+	): boolean {
+		const handler = handlers.get(uuid);
+		const accessory = this.accessories.find(acc => acc.UUID === uuid);
+		if (!handler || !accessory) {
+			return false;
+		}
+		accessory.context[contextKey] = item;
+		handler.updateStateFromExternal(item);
+		return true;
+	}
+
+	private getExposedAreas(): OlarmArea[] {
+		return this.olarm?.getAreas().filter(a => !a.hidden) ?? [];
+	}
+
+	private getExposedZones(): OlarmZone[] {
+		return this.olarm?.getZones().filter(z => z.zoneType !== OlarmZoneType.Hidden) ?? [];
+	}
+
+	private getExposedPgms(): OlarmPgm[] {
+		return this.olarm?.getPgms().filter(p => p.pgmMode !== OlarmPgmMode.Hidden) ?? [];
+	}
+
+	private getExposedUkeys(): OlarmUkey[] {
+		return this.olarm?.getUkeys().filter(u => !u.hidden) ?? [];
+	}
+
+	// Devices where an All Areas accessory adds something over the single area
+	private getAllAreasGroups(): OlarmAreaGroup[] {
+		return this.olarm?.getAreaGroups().filter(g => g.areas.filter(a => !a.hidden).length > 1) ?? [];
+	}
+
+	private getZoneUUID(zone: OlarmZone): string {
+		return this.api.hap.uuid.generate(`${zone.deviceId}zone${zone.zoneNumber}`);
+	}
+
+	private getPgmUUID(pgm: OlarmPgm): string {
+		return this.api.hap.uuid.generate(`${pgm.deviceId}pgm${pgm.pgmNumber}`);
+	}
+
+	private getUkeyUUID(ukey: OlarmUkey): string {
+		return this.api.hap.uuid.generate(`${ukey.deviceId}ukey${ukey.ukeyNumber}`);
+	}
+
+	private getPowerUUID(power: OlarmPower): string {
+		return this.api.hap.uuid.generate(`${power.deviceId}power`);
+	}
+
+	private getConnectivityUUID(connectivity: OlarmConnectivity): string {
+		return this.api.hap.uuid.generate(`${connectivity.deviceId}connectivity`);
+	}
+
+	private getAllAreasUUID(group: OlarmAreaGroup): string {
+		return this.api.hap.uuid.generate(`${group.deviceId}allAreas`);
+	}
+
+	// Only a changed area state reaches the handler, so zone or power updates cannot
+	// disturb a pending command. Other updates may still change the fault or alarm source.
+	private updateAreaHandler(handler: OlarmAreaPlatformAccessory, area: OlarmArea, previousState: OlarmAreaState | undefined) {
+		if (area.areaState !== previousState) {
+			handler.updateStateFromExternal(area.areaState);
+		} else {
+			handler.refreshCharacteristics();
+		}
+	}
+
 	/**
 	 * Called by Olarm service when state updates occur.
 	 * This method should update the characteristics of relevant accessories.
@@ -396,7 +928,7 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 			this.initialDeviceDiscoveryDone = true;
 		}
 
-		const olarmAreas = this.olarm?.getAreas() ?? [];
+		const olarmAreas = this.getExposedAreas();
 
 		for (const area of olarmAreas) {
 			const uuid = this.api.hap.uuid.generate(area.deviceId + area.areaNumber.toString());
@@ -405,8 +937,9 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 
 			if (handler && accessory) {
 				this.log.debug(`Updating state for accessory via handler: ${accessory.displayName}`);
+				const previousState = (accessory.context.area as OlarmArea | undefined)?.areaState;
 				accessory.context.area = area;
-				handler.updateStateFromExternal(area.areaState);
+				this.updateAreaHandler(handler, area, previousState);
 			} else if (!handler && accessory) {
 				this.log.warn(`Accessory found for update (${accessory.displayName}) but handler is missing in map. Re-running discovery.`);
 				this.discoverDevices();
@@ -415,21 +948,112 @@ export class OlarmHomebridgePlatform implements DynamicPlatformPlugin {
 				this.discoverDevices();
 			}
 		}
+
+		if (this.config.exposeZones) {
+			for (const zone of this.getExposedZones()) {
+				const uuid = this.getZoneUUID(zone);
+				const accessory = this.accessories.find(acc => acc.UUID === uuid);
+				if (accessory?.context.zone?.zoneType !== zone.zoneType || !this.updateAccessoryState(uuid, "zone", zone, this.zoneHandlers)) {
+					this.log.debug(`Zone accessory for ${zone.zoneName} is missing or changed type. Triggering discovery.`);
+					this.discoverDevices();
+					return;
+				}
+			}
+		}
+
+		if (this.config.exposePgms) {
+			for (const pgm of this.getExposedPgms()) {
+				if (!this.updateAccessoryState(this.getPgmUUID(pgm), "pgm", pgm, this.pgmHandlers)) {
+					this.log.debug(`PGM accessory for ${pgm.pgmName} is missing. Triggering discovery.`);
+					this.discoverDevices();
+					return;
+				}
+			}
+		}
+
+		if (this.config.exposeUkeys) {
+			for (const ukey of this.getExposedUkeys()) {
+				if (!this.updateAccessoryState(this.getUkeyUUID(ukey), "ukey", ukey, this.ukeyHandlers)) {
+					this.log.debug(`Utility key accessory for ${ukey.ukeyName} is missing. Triggering discovery.`);
+					this.discoverDevices();
+					return;
+				}
+			}
+		}
+
+		if (this.config.exposePower) {
+			for (const power of this.olarm?.getPower() ?? []) {
+				if (!this.updateAccessoryState(this.getPowerUUID(power), "power", power, this.powerHandlers)) {
+					this.log.debug(`Power accessory for ${power.deviceName} is missing. Triggering discovery.`);
+					this.discoverDevices();
+					return;
+				}
+			}
+		}
+
+		if (this.config.exposeConnectivity) {
+			for (const connectivity of this.olarm?.getConnectivity() ?? []) {
+				if (!this.updateAccessoryState(this.getConnectivityUUID(connectivity), "connectivity", connectivity, this.connectivityHandlers)) {
+					this.log.debug(`Connectivity accessory for ${connectivity.deviceName} is missing. Triggering discovery.`);
+					this.discoverDevices();
+					return;
+				}
+			}
+		}
+
+		if (this.config.exposeAllAreas) {
+			for (const group of this.getAllAreasGroups()) {
+				if (!this.updateAccessoryState(this.getAllAreasUUID(group), "allAreas", group, this.allAreasHandlers)) {
+					this.log.debug(`All Areas accessory for ${group.deviceName} is missing. Triggering discovery.`);
+					this.discoverDevices();
+					return;
+				}
+			}
+		}
 	}
 
 	// Clean up MQTT connections on shutdown
 	shutdown() {
 		this.log.info("Shutting down Olarm platform...");
-		this.mqttClients.forEach((client, deviceId) => {
-			if (client) { // Check if client exists
-				this.log.info(`Closing MQTT connection for device ID: ${deviceId}`);
-				client.end(true, () => {
-					this.log.info(`MQTT connection closed callback for device ID: ${deviceId}`);
-				});
-			}
+		this.shuttingDown = true;
+		if (this.deviceRefreshTimer) {
+			clearInterval(this.deviceRefreshTimer);
+			this.deviceRefreshTimer = null;
+		}
+		this.mqttSupervisors.forEach((supervisor, deviceId) => {
+			this.log.info(`Closing MQTT connection for device ID: ${deviceId}`);
+			supervisor.stop();
 		});
+		this.mqttSupervisors.clear();
 		this.mqttClients.clear();
+		this.olarm?.clearPendingCommands();
+		this.olarm?.stopFallbacks();
+		this.accounts.forEach(account => account.auth.stop());
+		this.capture?.close();
+		this.webhooks?.stop();
+		this.restApi?.stop();
+		this.pgmHandlers.forEach(handler => handler.stop());
 		this.accessoryHandlers.clear();
+		this.zoneHandlers.clear();
+		this.pgmHandlers.clear();
+		this.ukeyHandlers.clear();
+		this.powerHandlers.clear();
+		this.allAreasHandlers.clear();
+		this.emergencyHandlers.clear();
+		this.connectivityHandlers.clear();
 		this.log.info("Olarm platform shutdown complete.");
 	}
-}
\ No newline at end of file
+}
+
+// Context keys of the accessory types, each holds an object with the device ID
+const ACCESSORY_CONTEXT_KEYS = ["area", "zone", "pgm", "ukey", "power", "allAreas", "emergency", "connectivity"];
+
+function getAccessoryDeviceId(accessory: PlatformAccessory): string | undefined {
+	for (const key of ACCESSORY_CONTEXT_KEYS) {
+		const deviceId = accessory.context[key]?.deviceId;
+		if (typeof deviceId === "string") {
+			return deviceId;
+		}
+	}
+	return undefined;
+}
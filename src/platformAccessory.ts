@@ -1,7 +1,20 @@
 import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
 
 import { OlarmHomebridgePlatform } from "./platform";
-import { OlarmArea, OlarmAreaAction, OlarmAreaState } from "./types";
+import { AreaModes, HomeKitArmMode, OlarmArea, OlarmAreaAction, OlarmAreaState } from "./types";
+
+// Used for areas cached before modes were configurable
+const DEFAULT_MODES: AreaModes = {
+	[HomeKitArmMode.Home]: OlarmAreaAction.Stay,
+	[HomeKitArmMode.Away]: OlarmAreaAction.Arm,
+	[HomeKitArmMode.Night]: OlarmAreaAction.Sleep,
+};
+
+// A command sent from HomeKit that the panel has not confirmed yet
+interface PendingCommand {
+	action: OlarmAreaAction;
+	target: OlarmAreaState;
+}
 
 /**
  * Platform Accessory
@@ -13,6 +26,11 @@ export class OlarmAreaPlatformAccessory {
 	// Keep track of the states within the accessory handler
 	private currentState: OlarmAreaState;
 	private targetState: OlarmAreaState;
+	// Set when the panel did not confirm the last command, cleared by the next state change or status payload
+	private commandFailed = false;
+	private commandFailedAt = 0;
+	// The command waiting for the panel's confirmation, its target is shown meanwhile
+	private pendingCommand: PendingCommand | null = null;
 
 	constructor(
 		private readonly platform: OlarmHomebridgePlatform,
@@ -70,13 +88,27 @@ export class OlarmAreaPlatformAccessory {
 			.onGet(this.handleSecuritySystemCurrentStateGet.bind(this));
 
 		// register handlers for the SecuritySystemTargetState Characteristic
+		// Only offer the arming modes this area supports
 		this.service
 			.getCharacteristic(
 				this.platform.Characteristic.SecuritySystemTargetState
 			)
+			.setProps({ validValues: this.getValidTargetValues() })
 			.onGet(this.handleSecuritySystemTargetStateGet.bind(this))
 			.onSet(this.handleSecuritySystemTargetStateSet.bind(this));
 
+		// Not ready (e.g. a window is open) and an offline communicator show as a fault,
+		// the current state stays at the last known value
+		this.service.getCharacteristic(this.platform.Characteristic.StatusFault);
+
+		// The zone(s) behind an alarm, for automations and notifications
+		if (!this.service.testCharacteristic(this.platform.AlarmSource)) {
+			this.service.addCharacteristic(this.platform.AlarmSource);
+		}
+		this.service
+			.getCharacteristic(this.platform.AlarmSource)
+			.onGet(this.handleAlarmSourceGet.bind(this));
+
 		// Update characteristics with initial values AFTER setting up handlers
 		this.updateCharacteristics(this.currentState, this.targetState);
 
@@ -104,17 +136,39 @@ export class OlarmAreaPlatformAccessory {
 				hkTarget
 			);
 		}
+		const offline = !(this.platform.olarm?.isDeviceOnline(this.accessory.context.area?.deviceId) ?? true);
+		this.service.updateCharacteristic(
+			this.platform.Characteristic.StatusFault,
+			current === OlarmAreaState.NotReady || offline
+				? this.platform.Characteristic.StatusFault.GENERAL_FAULT
+				: this.platform.Characteristic.StatusFault.NO_FAULT
+		);
+		this.service.updateCharacteristic(this.platform.AlarmSource, this.getAlarmSource());
 	}
 
+	// Names of the zones that triggered the alarm, set by Olarm while the area is triggered
+	private getAlarmSource(): string {
+		const area = this.accessory.context.area as OlarmArea | undefined;
+		return (area?.alarmZones ?? []).map(z => z.zoneName).join(", ");
+	}
 
-	// --- Method called by the platform when MQTT state changes ---
+
+	// --- Method called by the platform when the area state changes ---
 	public updateStateFromExternal(newState: OlarmAreaState) {
 		this.platform.log.info(`[${this.accessory.displayName}] External state update received: ${newState}`);
+		this.currentState = newState;
+
+		// While a command is pending its target stays, the confirmation settles it
+		if (this.pendingCommand) {
+			this.platform.log.debug(`[${this.accessory.displayName}] Command "${this.pendingCommand.action}" pending, keeping target state as ${this.targetState}`);
+			this.updateCharacteristics(this.currentState, this.targetState);
+			return;
+		}
+		this.commandFailed = false;
 
 		// Update internal state tracking
 		// If the new state is "NotReady", we keep the previous target state,
 		// otherwise, the target state should align with the current state.
-		this.currentState = newState;
 		if (this.currentState !== OlarmAreaState.NotReady) {
 			this.targetState = this.currentState;
 		} else {
@@ -127,27 +181,67 @@ export class OlarmAreaPlatformAccessory {
 		this.updateCharacteristics(this.currentState, this.targetState);
 	}
 
+	// Called by the platform for updates that leave the area state alone, e.g. connectivity
+	public refreshCharacteristics() {
+		this.updateCharacteristics(this.currentState, this.targetState);
+	}
+
+	// Area modes from the context, set by the platform from the area config
+	private get modes(): AreaModes {
+		return (this.accessory.context.area as OlarmArea | undefined)?.modes ?? DEFAULT_MODES;
+	}
+
+	// The HomeKit mode that stands for an armed panel state, following the area's mode mapping.
+	// If no enabled mode sends the matching action, the default mode for the state is used.
+	private getArmModeForState(s: OlarmAreaState.Armed | OlarmAreaState.ArmedStay | OlarmAreaState.ArmedSleep): HomeKitArmMode {
+		const action = s === OlarmAreaState.Armed ? OlarmAreaAction.Arm : s === OlarmAreaState.ArmedStay ? OlarmAreaAction.Stay : OlarmAreaAction.Sleep;
+		const defaultMode = s === OlarmAreaState.Armed ? HomeKitArmMode.Away : s === OlarmAreaState.ArmedStay ? HomeKitArmMode.Home : HomeKitArmMode.Night;
+		if (this.modes[defaultMode] === action) {
+			return defaultMode;
+		}
+		return Object.values(HomeKitArmMode).find(mode => this.modes[mode] === action) ?? defaultMode;
+	}
+
+	private getValidTargetValues(): number[] {
+		const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+		const values: number[] = [TargetState.DISARM];
+		if (this.modes[HomeKitArmMode.Home]) {
+			values.push(TargetState.STAY_ARM);
+		}
+		if (this.modes[HomeKitArmMode.Away]) {
+			values.push(TargetState.AWAY_ARM);
+		}
+		if (this.modes[HomeKitArmMode.Night]) {
+			values.push(TargetState.NIGHT_ARM);
+		}
+		return values.sort((a, b) => a - b);
+	}
+
 	// Conversion function for SecuritySystemCurrentState
 	convertFromOlarmAreaStateToCurrentState = (
 		s: OlarmAreaState
 	): CharacteristicValue => {
 		/**
-		 * APPLE        OLARM
+		 * APPLE        OLARM (default mode mapping)
 		 * STAY_ARM     Stay (ArmedStay)
 		 * AWAY_ARM     Armed
 		 * NIGHT_ARM    Sleep (ArmedSleep)
-		 * DISARMED     Disarmed, NotReady
+		 * DISARMED     Disarmed, NotReady (with StatusFault set)
 		 * ALARM_TRIGGERED Triggered (Activated)
 		 */
 		switch (s) {
 			case OlarmAreaState.Armed:
-				return this.platform.Characteristic.SecuritySystemCurrentState.AWAY_ARM;
 			case OlarmAreaState.ArmedStay:
-				return this.platform.Characteristic.SecuritySystemCurrentState.STAY_ARM;
-			case OlarmAreaState.ArmedSleep:
-				return this.platform.Characteristic.SecuritySystemCurrentState.NIGHT_ARM;
+			case OlarmAreaState.ArmedSleep: {
+				const mode = this.getArmModeForState(s);
+				return mode === HomeKitArmMode.Home
+					? this.platform.Characteristic.SecuritySystemCurrentState.STAY_ARM
+					: mode === HomeKitArmMode.Away
+						? this.platform.Characteristic.SecuritySystemCurrentState.AWAY_ARM
+						: this.platform.Characteristic.SecuritySystemCurrentState.NIGHT_ARM;
+			}
 			case OlarmAreaState.Disarmed:
-			case OlarmAreaState.NotReady: // Treat NotReady as Disarmed for current state
+			case OlarmAreaState.NotReady: // Disarmed, StatusFault tells it apart
 				return this.platform.Characteristic.SecuritySystemCurrentState.DISARMED;
 			case OlarmAreaState.Triggered:
 				return this.platform.Characteristic.SecuritySystemCurrentState.ALARM_TRIGGERED;
@@ -164,11 +258,15 @@ export class OlarmAreaPlatformAccessory {
 		// Target state cannot be 'Triggered' or 'NotReady'
 		switch (s) {
 			case OlarmAreaState.Armed:
-				return this.platform.Characteristic.SecuritySystemTargetState.AWAY_ARM;
 			case OlarmAreaState.ArmedStay:
-				return this.platform.Characteristic.SecuritySystemTargetState.STAY_ARM;
-			case OlarmAreaState.ArmedSleep:
-				return this.platform.Characteristic.SecuritySystemTargetState.NIGHT_ARM;
+			case OlarmAreaState.ArmedSleep: {
+				const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+				const mode = this.getArmModeForState(s);
+				const value = mode === HomeKitArmMode.Home ? TargetState.STAY_ARM : mode === HomeKitArmMode.Away ? TargetState.AWAY_ARM : TargetState.NIGHT_ARM;
+				// Armed from the keypad in a mode HomeKit does not offer, show an offered armed mode instead
+				const validValues = this.getValidTargetValues();
+				return validValues.includes(value) ? value : validValues.find(v => v !== TargetState.DISARM) ?? TargetState.DISARM;
+			}
 			case OlarmAreaState.Disarmed:
 			case OlarmAreaState.NotReady: // If panel reports not ready, desired state is likely DISARM
 			case OlarmAreaState.Triggered: // If triggered, desired state is likely DISARM (to silence)
@@ -185,11 +283,11 @@ export class OlarmAreaPlatformAccessory {
 	): OlarmAreaAction | null => {
 		switch (value) {
 			case this.platform.Characteristic.SecuritySystemTargetState.STAY_ARM:
-				return OlarmAreaAction.Stay;
+				return this.modes[HomeKitArmMode.Home];
 			case this.platform.Characteristic.SecuritySystemTargetState.AWAY_ARM:
-				return OlarmAreaAction.Arm;
+				return this.modes[HomeKitArmMode.Away];
 			case this.platform.Characteristic.SecuritySystemTargetState.NIGHT_ARM:
-				return OlarmAreaAction.Sleep;
+				return this.modes[HomeKitArmMode.Night];
 			case this.platform.Characteristic.SecuritySystemTargetState.DISARM:
 				return OlarmAreaAction.Disarm;
 			default:
@@ -202,6 +300,16 @@ export class OlarmAreaPlatformAccessory {
 	 * Handle requests to get the current value of the "Security System Current State" characteristic
 	 */
 	async handleSecuritySystemCurrentStateGet(): Promise<CharacteristicValue> {
+		const lastPayloadAt = this.platform.olarm?.getLastPayloadAt((this.accessory.context.area as OlarmArea | undefined)?.deviceId ?? "");
+		if (this.commandFailed && lastPayloadAt !== undefined && lastPayloadAt > this.commandFailedAt) {
+			// The panel has reported since, it is responding even though the state did not change
+			this.commandFailed = false;
+		}
+		if (this.commandFailed) {
+			// Surface the failed command until the panel reports a state again
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+		this.throwIfStale();
 		// This should return the *last known state* stored in the handler.
 		// The actual state is updated asynchronously by `updateStateFromExternal`.
 		const currentStateValue = this.convertFromOlarmAreaStateToCurrentState(this.currentState);
@@ -209,16 +317,30 @@ export class OlarmAreaPlatformAccessory {
 		return currentStateValue;
 	}
 
+	async handleAlarmSourceGet(): Promise<CharacteristicValue> {
+		return this.getAlarmSource();
+	}
+
 	/**
 	 * Handle requests to get the current value of the "Security System Target State" characteristic
 	 */
 	async handleSecuritySystemTargetStateGet(): Promise<CharacteristicValue> {
+		this.throwIfStale();
 		// Return the last *set* or *inferred* target state.
 		const targetStateValue = this.convertFromOlarmAreaStateToTargetState(this.targetState);
 		this.platform.log.info(`[${this.accessory.displayName}] GET TargetState: returning ${this.targetState} (HK Value: ${targetStateValue})`);
 		return targetStateValue;
 	}
 
+	// No Response in HomeKit rather than a state that may no longer be true
+	private throwIfStale() {
+		const deviceId = this.accessory.context.area?.deviceId;
+		if (deviceId && this.platform.olarm?.isStateStale(deviceId)) {
+			this.platform.log.warn(`[${this.accessory.displayName}] No status from the panel for too long, reporting No Response.`);
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+	}
+
 	/**
 	 * Handle requests to set the "Security System Target State" characteristic
 	 */
@@ -255,8 +377,24 @@ export class OlarmAreaPlatformAccessory {
 			`[${this.accessory.displayName}] SET TargetState: Received request ${newTargetState} (HK Value: ${hkTargetState}, Action: ${requestedAction}). Current: ${this.currentState}, Target: ${this.targetState}`
 		);
 
+		// The panel refuses to arm with open zones unless force arm may bypass them
+		const refusal = this.platform.olarm && this.accessory.context.area
+			? this.platform.olarm.getAreaCommandRefusal(this.accessory.context.area, requestedAction)
+			: null;
+		if (refusal) {
+			this.platform.log.warn(`[${this.accessory.displayName}] SET TargetState: ${refusal}`);
+			this.service.updateCharacteristic(
+				this.platform.Characteristic.SecuritySystemTargetState,
+				this.convertFromOlarmAreaStateToTargetState(this.targetState)
+			);
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+		}
+
 		// Optimistically update the target state right away
+		const command: PendingCommand = { action: requestedAction, target: newTargetState };
+		this.pendingCommand = command;
 		this.targetState = newTargetState;
+		this.commandFailed = false;
 		this.service.updateCharacteristic(this.platform.Characteristic.SecuritySystemTargetState, hkTargetState);
 
 
@@ -264,20 +402,36 @@ export class OlarmAreaPlatformAccessory {
 		const area = this.accessory.context.area as OlarmArea;
 		if (!area) {
 			this.platform.log.error(`[${this.accessory.displayName}] Cannot set target state: Accessory context is missing area information.`);
+			this.pendingCommand = null;
 			// Optionally revert target state? Or throw?
 			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
 			// return;
 		}
 
+		if (this.platform.olarm!.needsForceArm(area, requestedAction)) {
+			// Bypassing can take longer than HomeKit waits for a set, finish in the background
+			this.platform.olarm!.sendAreaCommand(area, requestedAction).then((success) => {
+				if (success) {
+					this.watchForConfirmation(area, command);
+				} else {
+					this.platform.log.error(`[${this.accessory.displayName}] Failed to force ${requestedAction} the area.`);
+					this.failCommand(command);
+				}
+			});
+			return;
+		}
+
 		try {
-			const success = await this.platform.olarm!.setArea(area, requestedAction);
+			const success = await this.platform.olarm!.sendAreaCommand(area, requestedAction);
 			if (success) {
 				this.platform.log.info(`[${this.accessory.displayName}] Successfully sent command "${requestedAction}" to Olarm. Waiting for MQTT confirmation...`);
 				// Do NOT update currentState here. Wait for the MQTT message confirmation
 				// which will call updateStateFromExternal. HomeKit will show the target state
 				// until the current state updates.
+				this.watchForConfirmation(area, command);
 			} else {
 				this.platform.log.error(`[${this.accessory.displayName}] Failed to send command "${requestedAction}" to Olarm.`);
+				this.pendingCommand = null;
 				// Revert the target state in HomeKit since the command failed?
 				// Or leave it, assuming it might eventually succeed or user will retry?
 				// Let's revert for now to avoid confusion.
@@ -290,6 +444,9 @@ export class OlarmAreaPlatformAccessory {
 			}
 		} catch (error) {
 			this.platform.log.error(`[${this.accessory.displayName}] Error sending command "${requestedAction}":`, error);
+			if (this.pendingCommand === command) {
+				this.pendingCommand = null;
+			}
 			// Revert target state on error
 			this.targetState = this.currentState; // Revert internal target state
 			this.service.updateCharacteristic(
@@ -300,6 +457,51 @@ export class OlarmAreaPlatformAccessory {
 		}
 	}
 
+	/**
+	 * Follow up a sent command. If the panel does not confirm it in time, revert the
+	 * target state so HomeKit stops showing "Arming..." and report an error on the
+	 * current state until the next update arrives.
+	 */
+	private watchForConfirmation(area: OlarmArea, command: PendingCommand) {
+		const confirmation = this.platform.olarm!.getAreaConfirmation(area);
+		if (!confirmation) {
+			this.pendingCommand = null;
+			return;
+		}
+		confirmation.then((result) => {
+			this.platform.log.debug(`[${this.accessory.displayName}] Command "${command.action}" ${result}.`);
+			if (this.pendingCommand !== command) {
+				// Superseded by a newer command, which settles the target
+				return;
+			}
+			this.pendingCommand = null;
+			this.commandFailed = false;
+			if (this.currentState !== OlarmAreaState.NotReady) {
+				this.targetState = this.currentState;
+			}
+			this.updateCharacteristics(this.currentState, this.targetState);
+		}).catch((error: Error) => {
+			this.platform.log.error(`[${this.accessory.displayName}] ${error.message}`);
+			this.failCommand(command);
+		});
+	}
+
+	// Revert the target and report an error on the current state until the next state change
+	private failCommand(command: PendingCommand) {
+		if (this.pendingCommand !== command) {
+			// Superseded by a newer command, which settles the target
+			return;
+		}
+		this.pendingCommand = null;
+		this.commandFailed = true;
+		this.commandFailedAt = Date.now();
+		this.targetState = this.currentState;
+		this.service.updateCharacteristic(
+			this.platform.Characteristic.SecuritySystemTargetState,
+			this.convertFromOlarmAreaStateToTargetState(this.currentState)
+		);
+	}
+
 	// Optional: Add a cleanup method if needed
 	// public destroy() {
 	//   this.platform.log.info(`Destroying handler for accessory: ${this.accessory.displayName}`);
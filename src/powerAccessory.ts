@@ -0,0 +1,100 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { OlarmPower } from "./types";
+
+// The panel only reports healthy/low, so the level is an approximation
+const BATTERY_LEVEL_OK = 100;
+const BATTERY_LEVEL_LOW = 10;
+
+/**
+ * Power Accessory
+ * One per device. A Battery service reports charging (mains present) and low
+ * battery, and an optional "Mains Power" contact sensor opens on power loss
+ * so HomeKit can send notifications.
+ */
+export class OlarmPowerPlatformAccessory {
+	private batteryService: Service;
+	private mainsService: Service | undefined;
+	private power: OlarmPower;
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		this.power = this.accessory.context.power as OlarmPower;
+
+		this.platform.log.debug(`Initializing power accessory: ${this.accessory.displayName}`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm Power")
+			.setCharacteristic(this.platform.Characteristic.SerialNumber, `${this.power.deviceId}-PWR`);
+
+		this.batteryService =
+			this.accessory.getService(this.platform.Service.Battery) ||
+			this.accessory.addService(this.platform.Service.Battery, `${this.accessory.displayName} Battery`);
+
+		this.batteryService
+			.getCharacteristic(this.platform.Characteristic.BatteryLevel)
+			.onGet(async () => this.getBatteryLevel());
+		this.batteryService
+			.getCharacteristic(this.platform.Characteristic.ChargingState)
+			.onGet(async () => this.getChargingState());
+		this.batteryService
+			.getCharacteristic(this.platform.Characteristic.StatusLowBattery)
+			.onGet(async () => this.getStatusLowBattery());
+
+		const existingMainsService = this.accessory.getService(this.platform.Service.ContactSensor);
+		if (this.platform.config.exposeMainsSensor) {
+			this.mainsService =
+				existingMainsService ||
+				this.accessory.addService(this.platform.Service.ContactSensor, "Mains Power");
+			this.mainsService
+				.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+				.onGet(async () => this.getMainsContactState());
+		} else if (existingMainsService) {
+			this.accessory.removeService(existingMainsService);
+		}
+
+		this.updateCharacteristics();
+	}
+
+	private updateCharacteristics() {
+		this.batteryService.updateCharacteristic(this.platform.Characteristic.BatteryLevel, this.getBatteryLevel());
+		this.batteryService.updateCharacteristic(this.platform.Characteristic.ChargingState, this.getChargingState());
+		this.batteryService.updateCharacteristic(this.platform.Characteristic.StatusLowBattery, this.getStatusLowBattery());
+		this.mainsService?.updateCharacteristic(this.platform.Characteristic.ContactSensorState, this.getMainsContactState());
+	}
+
+	// --- Method called by the platform when MQTT state changes ---
+	public updateStateFromExternal(power: OlarmPower) {
+		this.power = power;
+		this.updateCharacteristics();
+	}
+
+	private getBatteryLevel(): CharacteristicValue {
+		return this.power.batteryOk ? BATTERY_LEVEL_OK : BATTERY_LEVEL_LOW;
+	}
+
+	private getChargingState(): CharacteristicValue {
+		return this.power.acOk
+			? this.platform.Characteristic.ChargingState.CHARGING
+			: this.platform.Characteristic.ChargingState.NOT_CHARGING;
+	}
+
+	private getStatusLowBattery(): CharacteristicValue {
+		return this.power.batteryOk
+			? this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL
+			: this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW;
+	}
+
+	// Closed while mains is present, open on power loss
+	private getMainsContactState(): CharacteristicValue {
+		return this.power.acOk
+			? this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED
+			: this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED;
+	}
+}
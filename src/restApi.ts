@@ -0,0 +1,178 @@
+import * as http from "http";
+import { timingSafeEqual } from "crypto";
+import { URL } from "url";
+import { Logger } from "homebridge";
+import { Olarm } from "./olarm";
+import { CommandResult, areaActionToState } from "./commandTracker";
+import { OlarmAreaAction, OlarmDeviceChanges } from "./types";
+
+interface restApiProps {
+	log: Logger;
+	olarm: Olarm;
+	apiKey: string;
+	host: string;
+	port: number;
+	onRefreshDevices?: () => Promise<OlarmDeviceChanges>; // Re-fetches the device lists
+}
+
+// Thrown inside request handlers to answer with a specific status
+class RestApiError extends Error {
+	constructor(public readonly status: number, message: string) {
+		super(message);
+	}
+}
+
+/**
+ * Local HTTP API for dashboards and scripts.
+ *
+ *   GET  /devices
+ *   GET  /areas
+ *   GET  /zones
+ *   POST /areas/{deviceId}/{areaNumber}/{action}   action: arm, stay, sleep or disarm
+ *   POST /devices/refresh                           fetch the device lists again
+ *
+ * Every request needs the configured API key, either as "X-API-Key: <key>"
+ * or "Authorization: Bearer <key>". Area commands answer once the panel has
+ * confirmed (200) or rejected (409) them. Like in HomeKit, hidden areas are left
+ * out and a not ready area only arms when force arm is enabled for it.
+ */
+export class RestApi {
+	private log: Logger;
+	private olarm: Olarm;
+	private apiKey: string;
+	private host: string;
+	private port: number;
+	private onRefreshDevices: (() => Promise<OlarmDeviceChanges>) | undefined;
+	private server: http.Server | null = null;
+
+	constructor({ log, olarm, apiKey, host, port, onRefreshDevices }: restApiProps) {
+		this.log = log;
+		this.olarm = olarm;
+		this.apiKey = apiKey;
+		this.host = host;
+		this.port = port;
+		this.onRefreshDevices = onRefreshDevices;
+	}
+
+	public start(): Promise<void> {
+		const server = http.createServer((req, res) => {
+			this.handleRequest(req, res).catch((error) => {
+				if (error instanceof RestApiError) {
+					this.sendJson(res, error.status, { error: error.message });
+					return;
+				}
+				this.log.error("REST API: Request failed:", error);
+				this.sendJson(res, 500, { error: "Internal error" });
+			});
+		});
+		this.server = server;
+		return new Promise((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(this.port, this.host, () => {
+				server.off("error", reject);
+				server.on("error", (error) => this.log.error("REST API: Server error:", error));
+				this.log.info(`REST API: Listening on http://${this.host}:${this.port}`);
+				resolve();
+			});
+		});
+	}
+
+	public stop() {
+		this.server?.close();
+		this.server = null;
+	}
+
+	private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		if (!this.isAuthorized(req)) {
+			this.log.warn(`REST API: Rejected unauthorized ${req.method} ${req.url} from ${req.socket.remoteAddress}`);
+			throw new RestApiError(401, "Missing or invalid API key");
+		}
+
+		const url = new URL(req.url ?? "/", "http://localhost");
+		let parts: string[];
+		try {
+			parts = url.pathname.split("/").filter(part => part).map(part => decodeURIComponent(part));
+		} catch (error) {
+			throw new RestApiError(400, "Malformed path");
+		}
+
+		if (req.method === "GET" && parts.length === 1) {
+			switch (parts[0]) {
+				case "devices":
+					return this.sendJson(res, 200, this.olarm.getDevices().map(device => ({
+						id: device.id,
+						IMEI: device.IMEI,
+						name: device.name ?? null,
+					})));
+				case "areas":
+					return this.sendJson(res, 200, this.olarm.getAreas().filter(area => !area.hidden));
+				case "zones":
+					return this.sendJson(res, 200, this.olarm.getZones());
+			}
+		}
+
+		if (req.method === "POST" && parts.length === 2 && parts[0] === "devices" && parts[1] === "refresh" && this.onRefreshDevices) {
+			this.log.info("REST API: Device refresh requested");
+			return this.sendJson(res, 200, await this.onRefreshDevices());
+		}
+
+		if (req.method === "POST" && parts.length === 4 && parts[0] === "areas") {
+			return this.sendJson(res, 200, await this.setArea(parts[1], Number(parts[2]), parts[3]));
+		}
+
+		throw new RestApiError(404, "Not found");
+	}
+
+	private async setArea(deviceId: string, areaNumber: number, action: string) {
+		if (!(Object.values(OlarmAreaAction) as string[]).includes(action)) {
+			throw new RestApiError(400, `Unknown action "${action}", expected one of: ${Object.values(OlarmAreaAction).join(", ")}`);
+		}
+		const area = this.olarm.getAreas().find(a => a.deviceId === deviceId && a.areaNumber === areaNumber);
+		if (!area || area.hidden) {
+			throw new RestApiError(404, `Area ${areaNumber} not found on device ${deviceId}`);
+		}
+		const refusal = this.olarm.getAreaCommandRefusal(area, action as OlarmAreaAction);
+		if (refusal) {
+			this.log.warn(`REST API: Refused "${action}" for area ${area.areaNumber} (${area.areaName}) on device ${deviceId}: ${refusal}`);
+			throw new RestApiError(409, refusal);
+		}
+
+		this.log.info(`REST API: "${action}" requested for area ${area.areaNumber} (${area.areaName}) on device ${deviceId}`);
+		const forceArm = this.olarm.needsForceArm(area, action as OlarmAreaAction);
+		const sent = this.olarm.sendAreaCommand(area, action as OlarmAreaAction, "rest-api");
+		// Grab the confirmation right away, a fast panel may confirm before the publish resolves.
+		// A force arm only sends the command after bypassing, so look for it once sent.
+		let confirmation = forceArm ? undefined : this.olarm.getAreaConfirmation(area);
+		if (!(await sent)) {
+			throw new RestApiError(502, `Could not send "${action}" to device ${deviceId}`);
+		}
+		confirmation = confirmation ?? this.olarm.getAreaConfirmation(area);
+		if (!confirmation) {
+			// Already settled, the area state tells whether it went through
+			const current = this.olarm.getAreas().find(a => a.deviceId === deviceId && a.areaNumber === areaNumber);
+			if (current?.areaState !== areaActionToState(action as OlarmAreaAction)) {
+				throw new RestApiError(409, `Panel did not confirm "${action}" for area ${areaNumber} (${area.areaName})`);
+			}
+			return { deviceId: deviceId, areaNumber: areaNumber, action: action, result: CommandResult.Confirmed };
+		}
+		try {
+			const result = await confirmation;
+			return { deviceId: deviceId, areaNumber: areaNumber, action: action, result: result };
+		} catch (error) {
+			throw new RestApiError(409, error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	private isAuthorized(req: http.IncomingMessage): boolean {
+		const header = req.headers.authorization ?? "";
+		const provided = (req.headers["x-api-key"] as string | undefined) ?? (header.startsWith("Bearer ") ? header.substring(7) : "");
+		const expected = Buffer.from(this.apiKey);
+		const actual = Buffer.from(provided);
+		return actual.length === expected.length && timingSafeEqual(actual, expected);
+	}
+
+	private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+}
@@ -0,0 +1,50 @@
+/**
+ * Olarm cloud simulator for local development.
+ *
+ *   npm run simulator -- --port 8085 --devices 1 --token-ttl 3600 --activity 20
+ *
+ * Then point the plugin at it with:
+ *
+ *   "endpoints": {
+ *     "authUrl": "http://localhost:8085",
+ *     "apiUrl": "http://localhost:8085",
+ *     "deviceApiUrl": "http://localhost:8085",
+ *     "mqttUrl": "ws://localhost:8085"
+ *   }
+ */
+import { OlarmSimulator } from "./simulator";
+
+function readArg(name: string, fallback: string | undefined): string | undefined {
+	const index = process.argv.indexOf(`--${name}`);
+	return index > -1 && process.argv[index + 1] !== undefined ? process.argv[index + 1] : fallback;
+}
+
+function readNumberArg(name: string, fallback: number): number {
+	const value = Number(readArg(name, undefined));
+	return Number.isFinite(value) ? value : fallback;
+}
+
+const log = (message: string) => console.log(`[${new Date().toISOString()}] [Olarm Simulator] ${message}`);
+
+const simulator = new OlarmSimulator({
+	port: readNumberArg("port", 8085),
+	devices: Math.max(1, readNumberArg("devices", 1)),
+	userEmailPhone: readArg("user", undefined),
+	userPass: readArg("pass", undefined),
+	tokenTtl: readNumberArg("token-ttl", 3600),
+	activityInterval: readNumberArg("activity", 20),
+	log: log,
+});
+
+simulator.start().then(() => {
+	const port = readNumberArg("port", 8085);
+	log(`Listening on http://localhost:${port} (MQTT over ws://localhost:${port})`);
+	simulator.getPanels().forEach(panel => log(`Device ${panel.deviceName}: id ${panel.deviceId}, IMEI ${panel.IMEI}`));
+});
+
+const shutdown = () => {
+	log("Shutting down...");
+	simulator.stop().then(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,255 @@
+import { AlarmPayload } from "../types";
+
+interface SimulatedZone {
+	label: string;
+	area: number; // 1-based area the zone belongs to
+	motion: boolean;
+	open: boolean;
+	bypassed: boolean;
+	stamp: number;
+}
+
+// Area mode as the panel reports it, without the derived notready/activated states
+type AreaMode = "disarm" | "arm" | "stay" | "sleep";
+
+interface SimulatedArea {
+	name: string;
+	mode: AreaMode;
+	triggered: boolean;
+	stamp: number;
+}
+
+const ZONE_LAYOUT: { label: string; area: number; motion: boolean }[] = [
+	{ label: "Front Door", area: 1, motion: false },
+	{ label: "Kitchen Door", area: 1, motion: false },
+	{ label: "Lounge Window", area: 1, motion: false },
+	{ label: "Lounge PIR", area: 1, motion: true },
+	{ label: "Passage PIR", area: 1, motion: true },
+	{ label: "Main Bedroom Window", area: 1, motion: false },
+	{ label: "Garage Door", area: 2, motion: false },
+	{ label: "Garage PIR", area: 2, motion: true },
+];
+
+/**
+ * A simulated alarm panel with two areas, eight zones, two PGMs and two utility keys.
+ * Arming follows real panel rules: an area with open, unbypassed zones is not
+ * ready and refuses to arm, and an armed area triggers when one of its zones opens
+ * (motion zones are ignored in stay and sleep mode).
+ */
+export class SimulatedPanel {
+	public readonly pgmLabels = ["Gate Motor", "Garage Door"];
+	public readonly ukeysLabels = ["Electric Fence", "Driveway Light"];
+
+	private areas: SimulatedArea[] = [
+		{ name: "House", mode: "disarm", triggered: false, stamp: Date.now() },
+		{ name: "Garage", mode: "disarm", triggered: false, stamp: Date.now() },
+	];
+	private zones: SimulatedZone[] = ZONE_LAYOUT.map(z => ({ ...z, open: false, bypassed: false, stamp: Date.now() }));
+	private pgmOn: boolean[] = [false, false];
+	private acOk = true;
+	private batteryOk = true;
+	private cmdRecv = 0;
+
+	constructor(
+		public readonly deviceId: string,
+		public readonly IMEI: string,
+		public readonly deviceName: string,
+		private readonly log: (message: string) => void,
+		// Called when the state changes outside of handleCommand(), so it can be published
+		private readonly onChange: () => void,
+	) {}
+
+	public get zonesLabels(): string[] {
+		return this.zones.map(z => z.label);
+	}
+
+	// Zone types as numbers like the Olarm device profile, 1 = motion
+	public get zonesTypes(): number[] {
+		return this.zones.map(z => (z.motion ? 1 : 0));
+	}
+
+	/**
+	 * Apply a control command, e.g. ["arm", 1] or ["zone-bypass", 4].
+	 * Returns false if the command was not understood.
+	 */
+	public handleCommand(data: unknown[]): boolean {
+		const [action, index] = data;
+		if (typeof action !== "string" || typeof index !== "number") {
+			return false;
+		}
+		this.cmdRecv = Date.now();
+
+		switch (action) {
+			case "arm":
+			case "stay":
+			case "sleep":
+			case "disarm":
+				return this.setAreaMode(index, action);
+			case "zone-bypass":
+			case "zone-unbypass":
+				return this.setZoneBypass(index, action === "zone-bypass");
+			case "pgm-open":
+			case "pgm-close":
+				return this.setPgm(index, action === "pgm-open");
+			case "pgm-pulse":
+				if (!this.setPgm(index, true)) {
+					return false;
+				}
+				setTimeout(() => {
+					this.setPgm(index, false);
+					this.onChange();
+				}, 2000);
+				return true;
+			case "panic":
+			case "fire":
+			case "medical":
+				return this.raiseEmergency(index, action);
+			case "ukey-activate":
+				if (!this.ukeysLabels[index - 1]) {
+					return false;
+				}
+				this.log(`${this.deviceName}: utility key ${index} (${this.ukeysLabels[index - 1]}) activated`);
+				return true;
+			default:
+				this.log(`${this.deviceName}: unknown command "${action}"`);
+				return false;
+		}
+	}
+
+	// Emergencies trigger the area whether it is armed or not
+	private raiseEmergency(areaNumber: number, action: string): boolean {
+		const area = this.areas[areaNumber - 1];
+		if (!area) {
+			return false;
+		}
+		area.triggered = true;
+		area.stamp = Date.now();
+		this.log(`${this.deviceName}: ${action.toUpperCase()} alarm in area ${areaNumber} (${area.name})`);
+		return true;
+	}
+
+	public setZoneOpen(zoneNumber: number, open: boolean) {
+		const zone = this.zones[zoneNumber - 1];
+		if (!zone || zone.open === open) {
+			return;
+		}
+		zone.open = open;
+		zone.stamp = Date.now();
+		this.log(`${this.deviceName}: zone ${zoneNumber} (${zone.label}) ${open ? "opened" : "closed"}`);
+
+		const area = this.areas[zone.area - 1];
+		if (open && !zone.bypassed && this.isArmedFor(area, zone)) {
+			area.triggered = true;
+			area.stamp = Date.now();
+			this.log(`${this.deviceName}: ALARM in area ${zone.area} (${area.name}), zone ${zone.label}`);
+		}
+		this.onChange();
+	}
+
+	public setMains(acOk: boolean) {
+		this.acOk = acOk;
+		this.log(`${this.deviceName}: mains power ${acOk ? "restored" : "lost"}`);
+		this.onChange();
+	}
+
+	public setBattery(batteryOk: boolean) {
+		this.batteryOk = batteryOk;
+		this.log(`${this.deviceName}: battery ${batteryOk ? "ok" : "low"}`);
+		this.onChange();
+	}
+
+	// Random activity: mostly doors and PIRs, sometimes a power cut
+	public randomEvent() {
+		if (Math.random() < 0.05) {
+			this.setMains(!this.acOk);
+			return;
+		}
+		const zoneNumber = 1 + Math.floor(Math.random() * this.zones.length);
+		this.setZoneOpen(zoneNumber, !this.zones[zoneNumber - 1].open);
+	}
+
+	public toPayload(): AlarmPayload {
+		const now = Date.now();
+		return {
+			status: "online",
+			type: "alarmPayload",
+			data: {
+				timestamp: now,
+				cmdRecv: this.cmdRecv,
+				type: "simulator",
+				areas: this.areas.map((area, i) => this.getAreaState(area, i + 1)),
+				areasDetail: this.areas.map(a => a.name),
+				areasStamp: this.areas.map(a => a.stamp),
+				zones: this.zones.map(z => (z.bypassed ? "b" : z.open ? "a" : "c")),
+				zonesStamp: this.zones.map(z => z.stamp),
+				pgm: this.pgmOn.map(on => (on ? "a" : "c")),
+				pgmOb: this.pgmOn.map(() => ""),
+				ukeys: [...this.ukeysLabels],
+				power: { AC: this.acOk ? "1" : "0", Batt: this.batteryOk ? "1" : "0" },
+			},
+			dataProlinks: null,
+			gsmStamp: now,
+			wifiStamp: now,
+		};
+	}
+
+	private getAreaState(area: SimulatedArea, areaNumber: number): string {
+		if (area.triggered) {
+			return "activated";
+		}
+		if (area.mode === "disarm" && this.getOpenZones(areaNumber).length > 0) {
+			return "notready";
+		}
+		return area.mode;
+	}
+
+	private getOpenZones(areaNumber: number): SimulatedZone[] {
+		return this.zones.filter(z => z.area === areaNumber && z.open && !z.bypassed);
+	}
+
+	private isArmedFor(area: SimulatedArea, zone: SimulatedZone): boolean {
+		if (area.mode === "arm") {
+			return true;
+		}
+		return (area.mode === "stay" || area.mode === "sleep") && !zone.motion;
+	}
+
+	private setAreaMode(areaNumber: number, mode: AreaMode): boolean {
+		const area = this.areas[areaNumber - 1];
+		if (!area) {
+			return false;
+		}
+		if (mode !== "disarm") {
+			const openZones = this.getOpenZones(areaNumber);
+			if (openZones.length > 0) {
+				this.log(`${this.deviceName}: cannot ${mode} area ${areaNumber} (${area.name}), not ready: ${openZones.map(z => z.label).join(", ")}`);
+				return true;
+			}
+		}
+		area.mode = mode;
+		area.triggered = false;
+		area.stamp = Date.now();
+		this.log(`${this.deviceName}: area ${areaNumber} (${area.name}) -> ${mode}`);
+		return true;
+	}
+
+	private setZoneBypass(zoneNumber: number, bypassed: boolean): boolean {
+		const zone = this.zones[zoneNumber - 1];
+		if (!zone) {
+			return false;
+		}
+		zone.bypassed = bypassed;
+		zone.stamp = Date.now();
+		this.log(`${this.deviceName}: zone ${zoneNumber} (${zone.label}) ${bypassed ? "bypassed" : "unbypassed"}`);
+		return true;
+	}
+
+	private setPgm(pgmNumber: number, on: boolean): boolean {
+		if (pgmNumber < 1 || pgmNumber > this.pgmOn.length) {
+			return false;
+		}
+		this.pgmOn[pgmNumber - 1] = on;
+		this.log(`${this.deviceName}: PGM ${pgmNumber} (${this.pgmLabels[pgmNumber - 1]}) ${on ? "on" : "off"}`);
+		return true;
+	}
+}
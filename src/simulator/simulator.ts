@@ -0,0 +1,289 @@
+import * as http from "http";
+import { randomBytes } from "crypto";
+import { URL, URLSearchParams } from "url";
+import { createBroker } from "aedes";
+import { WebSocketServer, createWebSocketStream } from "ws";
+import { SimulatedPanel } from "./panel";
+
+export interface SimulatorOptions {
+	port: number;
+	devices: number;
+	userEmailPhone?: string; // Accept any credentials if not set
+	userPass?: string;
+	tokenTtl: number; // Access token lifetime in seconds
+	activityInterval: number; // Seconds between random zone events, 0 disables
+	log: (message: string) => void;
+}
+
+interface IssuedToken {
+	expires: number; // ms since epoch
+}
+
+const USER_INDEX = 1;
+const USER_ID = "simulator-user";
+
+/**
+ * Offline stand-in for the Olarm cloud.
+ * One HTTP server answers the login, refresh, user and device list endpoints,
+ * and upgrades WebSocket connections to an embedded MQTT broker that speaks the
+ * same topics as mqtt-ws.olarm.com, backed by simulated panels.
+ */
+export class OlarmSimulator {
+	private server: http.Server;
+	private wss: WebSocketServer;
+	private broker = createBroker({
+		authenticate: (client, username, password, done) => this.authenticateMqtt(username, password, done),
+	});
+	private panels: Map<string, SimulatedPanel> = new Map(); // Keyed by IMEI
+	private accessTokens: Map<string, IssuedToken> = new Map();
+	private refreshTokens: Set<string> = new Set();
+	private activityTimer: NodeJS.Timeout | null = null;
+
+	constructor(private readonly options: SimulatorOptions) {
+		for (let i = 1; i <= options.devices; i++) {
+			const IMEI = `35000000000000${i}`;
+			const panel = new SimulatedPanel(`sim-device-${i}`, IMEI, `Simulated Panel ${i}`, options.log, () => this.publishState(panel));
+			this.panels.set(IMEI, panel);
+		}
+
+		this.server = http.createServer((req, res) => {
+			this.handleHttp(req, res).catch((error) => {
+				this.options.log(`HTTP error: ${error instanceof Error ? error.message : String(error)}`);
+				this.sendJson(res, 500, { error: "internal error" });
+			});
+		});
+
+		this.wss = new WebSocketServer({ server: this.server });
+		this.wss.on("connection", (socket, req) => {
+			this.broker.handle(createWebSocketStream(socket), req);
+		});
+
+		this.broker.on("publish", (packet, client) => {
+			if (client) {
+				this.handleMqttPublish(packet.topic, packet.payload.toString());
+			}
+		});
+	}
+
+	public start(): Promise<void> {
+		return new Promise((resolve) => {
+			this.server.listen(this.options.port, () => {
+				if (this.options.activityInterval > 0) {
+					this.activityTimer = setInterval(() => this.randomActivity(), this.options.activityInterval * 1000);
+				}
+				resolve();
+			});
+		});
+	}
+
+	public stop(): Promise<void> {
+		if (this.activityTimer) {
+			clearInterval(this.activityTimer);
+			this.activityTimer = null;
+		}
+		return new Promise((resolve) => {
+			this.wss.clients.forEach((socket) => socket.terminate());
+			this.wss.close();
+			this.broker.close(() => this.server.close(() => resolve()));
+		});
+	}
+
+	public getPanels(): SimulatedPanel[] {
+		return [...this.panels.values()];
+	}
+
+	// --- HTTP ---
+
+	private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const rawBody = await this.readBody(req);
+		const body = new URLSearchParams(rawBody);
+		this.options.log(`HTTP ${req.method} ${url.pathname}`);
+
+		if (req.method === "POST" && url.pathname === "/api/v4/oauth/login/mobile") {
+			if (!this.checkCredentials(body.get("userEmailPhone"), body.get("userPass"))) {
+				return this.sendJson(res, 401, { error: "invalid credentials" });
+			}
+			return this.sendJson(res, 200, this.issueTokens());
+		}
+
+		if (req.method === "POST" && url.pathname === "/api/v4/oauth/refresh") {
+			const refreshToken = body.get("ort");
+			if (!refreshToken || !this.refreshTokens.delete(refreshToken)) {
+				return this.sendJson(res, 401, { error: "invalid refresh token" });
+			}
+			return this.sendJson(res, 200, this.issueTokens());
+		}
+
+		if (req.method === "POST" && url.pathname === "/api/v4/oauth/federated-link-existing") {
+			if (!this.isValidAccessToken(url.searchParams.get("oat"))) {
+				return this.sendJson(res, 401, { error: "invalid access token" });
+			}
+			return this.sendJson(res, 200, { userIndex: USER_INDEX, userId: USER_ID });
+		}
+
+		if (req.method === "GET" && url.pathname === `/api/v2/users/${USER_INDEX}`) {
+			if (!this.isValidAccessToken(this.getBearerToken(req))) {
+				return this.sendJson(res, 401, { error: "invalid access token" });
+			}
+			return this.sendJson(res, 200, {
+				userIndex: USER_INDEX,
+				devices: this.getPanels().map(panel => ({
+					id: panel.deviceId,
+					IMEI: panel.IMEI,
+					deviceName: panel.deviceName,
+					deviceProfile: {
+						zonesLabels: panel.zonesLabels,
+						zonesTypes: panel.zonesTypes,
+						pgmLabels: panel.pgmLabels,
+						ukeysLabels: panel.ukeysLabels,
+					},
+				})),
+			});
+		}
+
+		// HTTP device API, used by the plugin while MQTT is down
+		const deviceMatch = /^\/api\/v4\/devices\/([^/]+)(\/actions)?$/.exec(url.pathname);
+		if (deviceMatch) {
+			if (!this.isValidAccessToken(this.getBearerToken(req))) {
+				return this.sendJson(res, 401, { error: "invalid access token" });
+			}
+			const panel = this.getPanels().find(p => p.deviceId === decodeURIComponent(deviceMatch[1]));
+			if (!panel) {
+				return this.sendJson(res, 404, { error: "unknown device" });
+			}
+			if (req.method === "GET" && !deviceMatch[2]) {
+				const payload = panel.toPayload();
+				return this.sendJson(res, 200, {
+					deviceId: panel.deviceId,
+					deviceStatus: payload.status,
+					deviceState: payload.data,
+					gsmStamp: payload.gsmStamp,
+					wifiStamp: payload.wifiStamp,
+				});
+			}
+			if (req.method === "POST" && deviceMatch[2]) {
+				let action: { actionCmd?: unknown; actionNum?: unknown };
+				try {
+					action = JSON.parse(rawBody);
+				} catch (e) {
+					return this.sendJson(res, 400, { error: "invalid JSON" });
+				}
+				// Area actions are prefixed with "area-" here, the panel takes them without
+				const actionCmd = typeof action.actionCmd === "string" ? action.actionCmd.replace(/^area-/, "") : action.actionCmd;
+				if (!panel.handleCommand([actionCmd, action.actionNum])) {
+					return this.sendJson(res, 400, { error: "unsupported action" });
+				}
+				this.publishState(panel);
+				return this.sendJson(res, 200, { actionStatus: "OK" });
+			}
+		}
+
+		this.sendJson(res, 404, { error: "not found" });
+	}
+
+	private checkCredentials(userEmailPhone: string | null, userPass: string | null): boolean {
+		if (!userEmailPhone || !userPass) {
+			return false;
+		}
+		if (this.options.userEmailPhone && this.options.userEmailPhone !== userEmailPhone) {
+			return false;
+		}
+		return !this.options.userPass || this.options.userPass === userPass;
+	}
+
+	private issueTokens() {
+		const accessToken = `sim-oat-${randomBytes(12).toString("hex")}`;
+		const refreshToken = `sim-ort-${randomBytes(12).toString("hex")}`;
+		const expires = Date.now() + this.options.tokenTtl * 1000;
+		this.accessTokens.set(accessToken, { expires });
+		this.refreshTokens.add(refreshToken);
+		return { oat: accessToken, ort: refreshToken, oatExpire: Math.floor(expires / 1000) };
+	}
+
+	private isValidAccessToken(token: string | null | undefined): boolean {
+		const issued = token ? this.accessTokens.get(token) : undefined;
+		return !!issued && issued.expires > Date.now();
+	}
+
+	private getBearerToken(req: http.IncomingMessage): string | null {
+		const header = req.headers.authorization ?? "";
+		return header.startsWith("Bearer ") ? header.substring(7) : null;
+	}
+
+	private readBody(req: http.IncomingMessage): Promise<string> {
+		return new Promise((resolve, reject) => {
+			let data = "";
+			req.on("data", (chunk) => (data += chunk));
+			req.on("end", () => resolve(data));
+			req.on("error", reject);
+		});
+	}
+
+	private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+
+	// --- MQTT ---
+
+	// Like the real broker, the password is the access token and an expired one is refused
+	private authenticateMqtt(
+		username: string | undefined,
+		password: Buffer | undefined,
+		done: (error: (Error & { returnCode: number }) | null, success: boolean | null) => void,
+	) {
+		if (username === "native_app" && this.isValidAccessToken(password?.toString())) {
+			return done(null, true);
+		}
+		this.options.log(`MQTT connection refused for user "${username}": invalid or expired token`);
+		const error = Object.assign(new Error("Not authorized"), { returnCode: 5 });
+		done(error, false);
+	}
+
+	private handleMqttPublish(topic: string, message: string) {
+		const match = /^si\/app\/v2\/([^/]+)\/(status|control)$/.exec(topic);
+		if (!match) {
+			return;
+		}
+		const panel = this.panels.get(match[1]);
+		if (!panel) {
+			this.options.log(`MQTT message for unknown IMEI ${match[1]}`);
+			return;
+		}
+
+		let payload: { method?: string; data?: unknown[] };
+		try {
+			payload = JSON.parse(message);
+		} catch (e) {
+			this.options.log(`MQTT non-JSON message on ${topic}`);
+			return;
+		}
+
+		if (match[2] === "control" && Array.isArray(payload.data)) {
+			panel.handleCommand(payload.data);
+		}
+		// Both a status GET and a command are answered with the current state
+		this.publishState(panel);
+	}
+
+	private publishState(panel: SimulatedPanel) {
+		this.broker.publish({
+			cmd: "publish",
+			topic: `so/app/v1/${panel.IMEI}`,
+			payload: Buffer.from(JSON.stringify(panel.toPayload())),
+			qos: 1,
+			retain: false,
+			dup: false,
+		}, (error) => {
+			if (error) {
+				this.options.log(`Failed to publish state for ${panel.IMEI}: ${error.message}`);
+			}
+		});
+	}
+
+	private randomActivity() {
+		const panels = this.getPanels();
+		panels[Math.floor(Math.random() * panels.length)]?.randomEvent();
+	}
+}
@@ -0,0 +1,274 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as os from 'os';
+import { Logger } from 'homebridge';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import type { Tokens } from './auth';
+
+// Lock file handling for the token file, a token refresh holds the lock while it waits for Olarm
+const LOCK_RETRY_MS = 100;
+const LOCK_TIMEOUT_MS = 30 * 1000;
+// The holder touches the lock this often, one not touched for LOCK_STALE_MS was left behind by a crashed process
+const LOCK_HEARTBEAT_MS = 5 * 1000;
+const LOCK_STALE_MS = 30 * 1000;
+
+const FILE_VERSION = 1;
+
+// What ends up on disk, tokens are either stored as is or AES-256-GCM encrypted.
+// account is the key of the account the tokens belong to, missing in files of older versions.
+type TokenFile =
+	| { version: number; account?: string; encrypted: false; tokens: Tokens }
+	| { version: number; account?: string; encrypted: true; salt: string; iv: string; tag: string; data: string };
+
+function accountKey(userEmailPhone: string): string {
+	return createHash('sha256').update(userEmailPhone.trim().toLowerCase()).digest('hex').substring(0, 16);
+}
+
+// Token file for an account under the Homebridge storage path
+export function getTokensFilePath(storagePath: string, userEmailPhone: string): string {
+	return path.join(storagePath, 'olarm', `tokens-${accountKey(userEmailPhone)}.json`);
+}
+
+/**
+ * Where older versions kept the tokens: ~/.olarmws-plugin/tokens.json for the
+ * top-level account, tokens-<key>.json next to it for additional accounts.
+ */
+export function getLegacyTokensFilePath(userEmailPhone?: string): string {
+	const directory = path.join(os.homedir(), '.olarmws-plugin');
+	return path.join(directory, userEmailPhone ? `tokens-${accountKey(userEmailPhone)}.json` : 'tokens.json');
+}
+
+interface tokenStoreProps {
+	log: Logger;
+	filePath: string;
+	userEmailPhone: string; // The account the tokens belong to
+	legacyFilePath?: string; // Migrated to filePath on first load, then removed
+	encryptionKey?: string; // Passphrase, tokens are stored in plain text without it
+}
+
+/**
+ * Reads and writes the token file of one account.
+ * Writes go to a temporary file that is renamed over the old one, and both reads
+ * and writes hold a lock file so two Homebridge instances can't interleave.
+ */
+export class TokenStore {
+	private log: Logger;
+	private filePath: string;
+	private account: string;
+	private legacyFilePath: string | undefined;
+	private encryptionKey: string | undefined;
+
+	constructor({ log, filePath, userEmailPhone, legacyFilePath, encryptionKey }: tokenStoreProps) {
+		this.log = log;
+		this.filePath = filePath;
+		this.account = accountKey(userEmailPhone);
+		this.legacyFilePath = legacyFilePath;
+		this.encryptionKey = encryptionKey || undefined;
+		fs.ensureDirSync(path.dirname(this.filePath));
+	}
+
+	// The stored tokens, null if there are none or they can't be read
+	public async load(): Promise<Partial<Tokens> | null> {
+		return this.withLock(() => this.read());
+	}
+
+	public async save(tokens: Tokens) {
+		await this.withLock(() => this.writeAtomic(this.encode(tokens)));
+	}
+
+	/**
+	 * Read, change and write the tokens under one lock, so no other instance sharing the
+	 * file can use the same refresh token in between. fn gets the stored tokens and
+	 * returns the tokens to write, or null to leave the file as it is.
+	 */
+	public async update(fn: (stored: Partial<Tokens> | null) => Promise<Tokens | null>) {
+		await this.withLock(async () => {
+			const tokens = await fn(await this.read());
+			if (tokens) {
+				await this.writeAtomic(this.encode(tokens));
+			}
+		});
+	}
+
+	private async read(): Promise<Partial<Tokens> | null> {
+		if (!(await fs.pathExists(this.filePath))) {
+			return this.migrateLegacyFile();
+		}
+		try {
+			return this.decode(await fs.readJSON(this.filePath));
+		} catch (error) {
+			this.log.error(`Auth: Failed to read tokens from ${this.filePath}:`, error instanceof Error ? error.message : error);
+			return null;
+		}
+	}
+
+	/**
+	 * Move tokens from the legacy location, so upgrading does not need a new login.
+	 * The legacy file is removed once the tokens are saved in the new one.
+	 */
+	private async migrateLegacyFile(): Promise<Partial<Tokens> | null> {
+		if (!this.legacyFilePath || !(await fs.pathExists(this.legacyFilePath))) {
+			return null;
+		}
+		try {
+			const tokens: Partial<Tokens> = await fs.readJSON(this.legacyFilePath);
+			await this.writeAtomic(this.encode(tokens as Tokens));
+			await fs.remove(this.legacyFilePath);
+			this.log.info(`Auth: Moved tokens from ${this.legacyFilePath} to ${this.filePath}.`);
+			return tokens;
+		} catch (error) {
+			this.log.warn(`Auth: Could not migrate tokens from ${this.legacyFilePath}:`, error instanceof Error ? error.message : error);
+			return null;
+		}
+	}
+
+	private encode(tokens: Tokens): TokenFile {
+		if (!this.encryptionKey) {
+			return { version: FILE_VERSION, account: this.account, encrypted: false, tokens: tokens };
+		}
+		const salt = randomBytes(16);
+		const iv = randomBytes(12);
+		const cipher = createCipheriv('aes-256-gcm', this.deriveKey(salt), iv);
+		const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+		return {
+			version: FILE_VERSION,
+			account: this.account,
+			encrypted: true,
+			salt: salt.toString('base64'),
+			iv: iv.toString('base64'),
+			tag: cipher.getAuthTag().toString('base64'),
+			data: data.toString('base64'),
+		};
+	}
+
+	private decode(file: TokenFile): Partial<Tokens> | null {
+		if (file.account !== undefined && file.account !== this.account) {
+			this.log.error(`Auth: ${this.filePath} holds the tokens of another account. Logging in again.`);
+			return null;
+		}
+		if (!file.encrypted) {
+			return file.tokens;
+		}
+		if (!this.encryptionKey) {
+			this.log.error("Auth: The token file is encrypted but no token encryption key is configured. Logging in again.");
+			return null;
+		}
+		try {
+			const decipher = createDecipheriv('aes-256-gcm', this.deriveKey(Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+			decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+			const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+			return JSON.parse(json);
+		} catch (error) {
+			this.log.error("Auth: Could not decrypt the token file, the token encryption key may have changed. Logging in again.");
+			return null;
+		}
+	}
+
+	private deriveKey(salt: Buffer): Buffer {
+		return scryptSync(this.encryptionKey!, salt, 32);
+	}
+
+	// Write to a temporary file and rename it, so a crash never leaves a half-written token file
+	private async writeAtomic(file: TokenFile) {
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+		const handle = await fs.open(tempPath, 'w', 0o600);
+		try {
+			await fs.write(handle, JSON.stringify(file));
+			await fs.fsync(handle);
+		} finally {
+			await fs.close(handle);
+		}
+		await fs.rename(tempPath, this.filePath);
+	}
+
+	/**
+	 * Run fn holding the lock file. The lock names its owner, which keeps it fresh
+	 * while it runs and only removes it if it still owns it.
+	 */
+	private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+		const lockPath = `${this.filePath}.lock`;
+		const owner = `${process.pid}-${randomBytes(8).toString('hex')}`;
+		const deadline = Date.now() + LOCK_TIMEOUT_MS;
+		for (;;) {
+			try {
+				await fs.writeFile(lockPath, owner, { flag: 'wx' });
+				break;
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+					throw error;
+				}
+				if (await this.removeStaleLock(lockPath, owner)) {
+					continue;
+				}
+				if (Date.now() > deadline) {
+					throw new Error(`Auth: Timed out waiting for token file lock ${lockPath}`);
+				}
+				await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+			}
+		}
+		const heartbeat = setInterval(() => {
+			const now = new Date();
+			fs.utimes(lockPath, now, now).catch(() => undefined);
+		}, LOCK_HEARTBEAT_MS);
+		heartbeat.unref();
+		try {
+			return await fn();
+		} finally {
+			clearInterval(heartbeat);
+			const current = await fs.readFile(lockPath, 'utf8').catch(() => null);
+			if (current === owner) {
+				await fs.remove(lockPath).catch(() => undefined);
+			} else {
+				this.log.warn(`Auth: Token file lock ${lockPath} was taken over while it was held.`);
+			}
+		}
+	}
+
+	/**
+	 * Remove the lock if it went stale. Waiters take turns through a guard file and check
+	 * again under it that the lock is still the stale one, so two of them can't both
+	 * remove a lock and the second one remove the lock the first one just took.
+	 */
+	private async removeStaleLock(lockPath: string, owner: string): Promise<boolean> {
+		const staleOwner = await this.getStaleLockOwner(lockPath);
+		if (staleOwner === null) {
+			return false;
+		}
+		const guardPath = `${lockPath}.stale`;
+		try {
+			await fs.writeFile(guardPath, owner, { flag: 'wx' });
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+				throw error;
+			}
+			// The guard is only held for a moment, an old one was left behind by a crash
+			if ((await this.getStaleLockOwner(guardPath)) !== null) {
+				await fs.remove(guardPath);
+			}
+			return false;
+		}
+		try {
+			if ((await this.getStaleLockOwner(lockPath)) !== staleOwner) {
+				return false;
+			}
+			this.log.warn(`Auth: Removing stale token file lock ${lockPath}.`);
+			await fs.remove(lockPath);
+			return true;
+		} finally {
+			await fs.remove(guardPath).catch(() => undefined);
+		}
+	}
+
+	// The owner named in a lock file that was not touched for LOCK_STALE_MS, null if it is fresh or gone
+	private async getStaleLockOwner(lockPath: string): Promise<string | null> {
+		try {
+			const stat = await fs.stat(lockPath);
+			if (Date.now() - stat.mtimeMs <= LOCK_STALE_MS) {
+				return null;
+			}
+			return await fs.readFile(lockPath, 'utf8');
+		} catch (error) {
+			return null;
+		}
+	}
+}
@@ -14,10 +14,17 @@ export interface AlarmData {
 	zonesStamp: number[];
 	pgm: string[];
 	pgmOb: string[];
-	ukeys: any[];
+	ukeys: OlarmUkeyPayload[];
 	power: Power;
 }
 
+// A utility key entry in alarmPayload, some firmware only sends the label
+export type OlarmUkeyPayload = string | {
+	name?: string;
+	label?: string;
+	enabled?: boolean;
+};
+
 export interface AlarmPayload {
 	status: string;
 	type: string; // "alarmPayload"
@@ -32,6 +39,70 @@ export interface OlarmArea {
 	deviceId: string;
 	areaNumber: number;
 	areaState: OlarmAreaState;
+	hidden: boolean; // Not exposed to HomeKit
+	modes: AreaModes;
+	excludeFromAllAreas: AllAreasMode[];
+	forceArm: boolean; // Bypass open zones to arm when not ready
+	alarmZones: OlarmAlarmZone[]; // Zones that triggered the alarm, empty unless triggered
+}
+
+// A zone an alarm was traced back to
+export interface OlarmAlarmZone {
+	zoneNumber: number;
+	zoneName: string;
+}
+
+// All areas of one device, for the All Areas accessory
+export interface OlarmAreaGroup {
+	deviceId: string;
+	deviceName: string;
+	areas: OlarmArea[];
+}
+
+// HomeKit arming modes, Off always disarms
+export enum HomeKitArmMode {
+	Home = "home",
+	Away = "away",
+	Night = "night",
+}
+
+// The panel action each HomeKit arming mode sends, null if the mode is not offered
+export type AreaModes = Record<HomeKitArmMode, OlarmAreaAction | null>;
+
+// Modes of the All Areas accessory, "off" disarms every area
+export type AllAreasMode = HomeKitArmMode | "off";
+
+// Per-area overrides from the platform config
+export interface AreaConfig {
+	deviceId?: string; // Applies to all devices if omitted
+	areaNumber: number;
+	name?: string;
+	hidden?: boolean;
+	home?: OlarmAreaAction | "disabled";
+	away?: OlarmAreaAction | "disabled";
+	night?: OlarmAreaAction | "disabled";
+	allAreasExclude?: AllAreasMode[]; // All Areas modes that leave this area alone
+	forceArm?: boolean;
+}
+
+// One Olarm login from the platform config
+export interface AccountConfig {
+	name?: string;
+	userEmailPhone: string;
+	userPass: string;
+}
+
+// Result of a device list refresh, by device ID
+export interface OlarmDeviceChanges {
+	added: string[];
+	removed: string[];
+}
+
+// Per-device overrides from the platform config
+export interface DeviceConfig {
+	deviceId: string;
+	name?: string;
+	hidden?: boolean; // Don't connect to this device at all
 }
 
 export enum OlarmAreaState {
@@ -43,6 +114,167 @@ export enum OlarmAreaState {
 	Triggered = "activated",
 }
 
+export interface OlarmPower {
+	deviceId: string;
+	deviceName: string;
+	acOk: boolean; // Mains power present
+	batteryOk: boolean; // Backup battery healthy
+}
+
+// The link the communicator was last heard on
+export enum OlarmSignalPath {
+	Wifi = "wifi",
+	Gsm = "gsm", // Cellular backup
+	Unknown = "unknown",
+}
+
+export interface OlarmConnectivity {
+	deviceId: string;
+	deviceName: string;
+	online: boolean; // Cloud connection up and the communicator not reported offline
+	path: OlarmSignalPath;
+	lastSeen: number | null; // From gsmStamp/wifiStamp, ms since epoch
+}
+
+export interface OlarmZone {
+	zoneName: string;
+	deviceId: string;
+	zoneNumber: number;
+	zoneState: OlarmZoneState;
+	zoneType: OlarmZoneType;
+	lastChanged: number | null; // From zonesStamp, ms since epoch
+	alarmSource: boolean; // Listed in the alarmZones of a triggered area
+}
+
+export enum OlarmZoneState {
+	Closed = "c",
+	Active = "a", // Open door/window or motion detected
+	Bypassed = "b",
+}
+
+export enum OlarmZoneType {
+	Contact = "contact",
+	Motion = "motion",
+	Hidden = "hidden", // Not exposed to HomeKit
+}
+
+// Per-zone overrides from the platform config
+export interface ZoneConfig {
+	deviceId?: string; // Applies to all devices if omitted
+	zoneNumber: number;
+	name?: string;
+	type?: OlarmZoneType;
+	areas?: number[]; // Areas the zone belongs to, for force arm
+}
+
+export enum OlarmZoneAction {
+	Bypass = "zone-bypass",
+	Unbypass = "zone-unbypass",
+}
+
+export interface OlarmPgm {
+	pgmName: string;
+	deviceId: string;
+	pgmNumber: number;
+	pgmOn: boolean;
+	pgmMode: OlarmPgmMode;
+}
+
+export enum OlarmPgmMode {
+	Switch = "switch", // Latching, toggles open/close
+	Pulse = "pulse", // Momentary, turns itself off after firing
+	Hidden = "hidden",
+}
+
+// Per-PGM overrides from the platform config
+export interface PgmConfig {
+	deviceId?: string;
+	pgmNumber: number;
+	name?: string;
+	mode?: OlarmPgmMode;
+}
+
+export enum OlarmPgmAction {
+	Open = "pgm-open",
+	Close = "pgm-close",
+	Pulse = "pgm-pulse",
+}
+
+export interface OlarmUkey {
+	ukeyName: string;
+	deviceId: string;
+	ukeyNumber: number;
+	hidden: boolean;
+}
+
+// Per-ukey overrides from the platform config
+export interface UkeyConfig {
+	deviceId?: string;
+	ukeyNumber: number;
+	name?: string;
+	hidden?: boolean;
+}
+
+export enum OlarmUkeyAction {
+	Activate = "ukey-activate",
+}
+
+// Emergency alarms the panel raises on request, like the panic buttons in the Olarm app
+export enum OlarmEmergencyAction {
+	Panic = "panic",
+	Fire = "fire",
+	Medical = "medical",
+}
+
+export interface OlarmEmergency {
+	deviceId: string;
+	deviceName: string;
+	action: OlarmEmergencyAction;
+	name: string;
+	areaNumber: number; // Area the alarm is raised in
+	confirmSeconds: number; // Second press needed within this time, 0 to fire on the first press
+}
+
+// Emergency switches from the platform config, off unless enabled
+export interface EmergencyConfig {
+	enabled?: boolean;
+	actions?: OlarmEmergencyAction[]; // Defaults to all
+	areaNumber?: number; // Defaults to 1
+	confirmSeconds?: number; // Defaults to 0, no interlock
+}
+
+export enum OlarmEventType {
+	Area = "area",
+	Zone = "zone",
+	Power = "power",
+	Connection = "connection", // Device going online or offline, over MQTT, the HTTP fallback or the payload status
+}
+
+// One entry of the event history
+export interface OlarmEvent {
+	timestamp: number; // ms since epoch
+	type: OlarmEventType;
+	deviceId: string;
+	areaNumber?: number;
+	zoneNumber?: number;
+	name: string; // Area or zone name, "Mains" or "Battery" for power events, device name for connection events
+	state: string; // New state, e.g. "arm", "a" (zone active), "lost" or "offline"
+	previousState?: string;
+	source?: string; // Who caused the change if known, e.g. "homebridge"
+	alarmZones?: string[]; // Names of the zones behind an alarm, for area events
+}
+
+// Filter for Olarm.queryEvents(), all fields are optional
+export interface OlarmEventQuery {
+	deviceId?: string;
+	areaNumber?: number;
+	zoneNumber?: number;
+	type?: OlarmEventType | OlarmEventType[];
+	from?: number; // ms since epoch, inclusive
+	to?: number; // ms since epoch, inclusive
+	limit?: number; // Newest events first
+}
+
 export enum OlarmAreaAction {
 	Arm = "arm",
 	Stay = "stay",
@@ -0,0 +1,86 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { OlarmUkey } from "./types";
+
+// How long the switch stays on in HomeKit after firing the key
+const UKEY_RESET_MS = 1000;
+
+/**
+ * Utility Key Accessory
+ * Exposes an Olarm utility key (electric fence toggle, driveway light) as a
+ * stateless switch. Turning it on fires the key, then it resets to off.
+ */
+export class OlarmUkeyPlatformAccessory {
+	private service: Service;
+	private resetTimer: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		const ukey = this.accessory.context.ukey as OlarmUkey;
+
+		this.platform.log.debug(`Initializing utility key accessory: ${this.accessory.displayName}`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm Utility Key")
+			.setCharacteristic(
+				this.platform.Characteristic.SerialNumber,
+				`${ukey.deviceId}-UK${ukey.ukeyNumber}`
+			);
+
+		this.service =
+			this.accessory.getService(this.platform.Service.Switch) ||
+			this.accessory.addService(this.platform.Service.Switch, this.accessory.displayName);
+
+		this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+		this.service
+			.getCharacteristic(this.platform.Characteristic.On)
+			.onGet(this.handleOnGet.bind(this))
+			.onSet(this.handleOnSet.bind(this));
+
+		this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+	}
+
+	// --- Method called by the platform when MQTT state changes ---
+	public updateStateFromExternal(ukey: OlarmUkey) {
+		// Utility keys carry no state, only the name can change
+		this.platform.log.debug(`[${this.accessory.displayName}] Utility key refreshed: ${ukey.ukeyName}`);
+	}
+
+	async handleOnGet(): Promise<CharacteristicValue> {
+		return this.resetTimer !== null;
+	}
+
+	async handleOnSet(value: CharacteristicValue) {
+		if (!(value as boolean)) {
+			// Nothing to do, the switch resets itself
+			return;
+		}
+
+		const ukey = this.accessory.context.ukey as OlarmUkey;
+		this.platform.log.info(`[${this.accessory.displayName}] SET On: firing utility key ${ukey.ukeyNumber}`);
+
+		let success = false;
+		try {
+			success = await this.platform.olarm!.triggerUkey(ukey);
+		} catch (error) {
+			this.platform.log.error(`[${this.accessory.displayName}] Error firing utility key:`, error);
+		}
+		if (!success) {
+			this.platform.log.error(`[${this.accessory.displayName}] Failed to fire utility key ${ukey.ukeyNumber}.`);
+			setImmediate(() => this.service.updateCharacteristic(this.platform.Characteristic.On, false));
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+
+		this.resetTimer = setTimeout(() => {
+			this.resetTimer = null;
+			this.service.updateCharacteristic(this.platform.Characteristic.On, false);
+		}, UKEY_RESET_MS);
+	}
+}
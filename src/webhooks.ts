@@ -0,0 +1,169 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { createHmac } from "crypto";
+import { Logger } from "homebridge";
+import fetch from "node-fetch";
+import { OlarmAreaState, OlarmEvent, OlarmEventType } from "./types";
+
+// Delivery retries, the delay doubles after every failed attempt
+const WEBHOOK_MAX_ATTEMPTS = 5;
+const WEBHOOK_RETRY_BASE_MS = 2 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Olarm-Signature";
+
+export interface WebhookConfig {
+	name?: string;
+	url: string;
+	events?: string[]; // Event names to send, all events if empty
+	secret?: string; // Signs the body with HMAC-SHA256
+	headers?: { name: string; value: string }[];
+}
+
+interface webhookDispatcherProps {
+	log: Logger;
+	webhooks: WebhookConfig[];
+	deadLetterFile: string;
+}
+
+/**
+ * The name a webhook receives and filters on, e.g. "alarm.triggered" or "power.lost".
+ * Area changes collapse into armed/disarmed/triggered/notready, an area that drops from
+ * armed straight to not ready was disarmed with a zone open.
+ */
+export function getWebhookEventName(event: OlarmEvent): string {
+	switch (event.type) {
+		case OlarmEventType.Area:
+			switch (event.state) {
+				case OlarmAreaState.Triggered:
+					return "alarm.triggered";
+				case OlarmAreaState.Armed:
+				case OlarmAreaState.ArmedStay:
+				case OlarmAreaState.ArmedSleep:
+					return "area.armed";
+				case OlarmAreaState.NotReady:
+					return event.previousState === OlarmAreaState.Disarmed ? "area.notready" : "area.disarmed";
+				default:
+					return "area.disarmed";
+			}
+		case OlarmEventType.Zone:
+			return "zone.changed";
+		case OlarmEventType.Power:
+			if (event.name === "Battery") {
+				return event.state === "ok" ? "battery.restored" : "battery.low";
+			}
+			return event.state === "ok" ? "power.restored" : "power.lost";
+		case OlarmEventType.Connection:
+			return event.state === "online" ? "connection.restored" : "connection.lost";
+	}
+}
+
+/**
+ * POSTs alarm events to the configured webhooks.
+ * Failed deliveries are retried with exponential backoff and written to a
+ * dead-letter file once all attempts are used up.
+ */
+export class WebhookDispatcher {
+	private log: Logger;
+	private webhooks: WebhookConfig[];
+	private deadLetterFile: string;
+	private retryTimers: Set<NodeJS.Timeout> = new Set();
+	private stopped = false;
+
+	constructor({ log, webhooks, deadLetterFile }: webhookDispatcherProps) {
+		this.log = log;
+		this.webhooks = webhooks.filter(hook => {
+			if (!hook?.url) {
+				log.warn("Webhooks: Ignoring a webhook without a URL.");
+				return false;
+			}
+			return true;
+		});
+		this.deadLetterFile = deadLetterFile;
+	}
+
+	public dispatch(event: OlarmEvent) {
+		if (this.stopped) {
+			return;
+		}
+		const eventName = getWebhookEventName(event);
+		const body = JSON.stringify({ event: eventName, ...event });
+		for (const hook of this.webhooks) {
+			if (hook.events && hook.events.length > 0 && !hook.events.includes(eventName)) {
+				continue;
+			}
+			this.deliver(hook, eventName, body, 1);
+		}
+	}
+
+	// Cancel pending retries, called on shutdown
+	public stop() {
+		this.stopped = true;
+		this.retryTimers.forEach((timer) => clearTimeout(timer));
+		this.retryTimers.clear();
+	}
+
+	private deliver(hook: WebhookConfig, eventName: string, body: string, attempt: number) {
+		const hookName = hook.name || hook.url;
+		this.send(hook, body).then(() => {
+			this.log.debug(`Webhooks: Delivered "${eventName}" to ${hookName}.`);
+		}).catch((error) => {
+			const message = error instanceof Error ? error.message : String(error);
+			if (this.stopped) {
+				return;
+			}
+			if (attempt >= WEBHOOK_MAX_ATTEMPTS) {
+				this.log.error(`Webhooks: Giving up on "${eventName}" for ${hookName} after ${attempt} attempts: ${message}`);
+				this.writeDeadLetter(hook, body, message, attempt);
+				return;
+			}
+			const delay = WEBHOOK_RETRY_BASE_MS * Math.pow(2, attempt - 1);
+			this.log.warn(`Webhooks: Failed to deliver "${eventName}" to ${hookName} (${message}), retrying in ${Math.round(delay / 1000)}s...`);
+			const timer = setTimeout(() => {
+				this.retryTimers.delete(timer);
+				this.deliver(hook, eventName, body, attempt + 1);
+			}, delay);
+			this.retryTimers.add(timer);
+		});
+	}
+
+	private async send(hook: WebhookConfig, body: string) {
+		const headers: Record<string, string> = { "Content-Type": "application/json" };
+		hook.headers?.forEach(header => {
+			if (header?.name) {
+				headers[header.name] = header.value ?? "";
+			}
+		});
+		if (hook.secret) {
+			headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${createHmac("sha256", hook.secret).update(body).digest("hex")}`;
+		}
+
+		const response = await fetch(hook.url, {
+			method: "POST",
+			headers: headers,
+			body: body,
+			timeout: WEBHOOK_TIMEOUT_MS,
+		});
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} ${response.statusText}`);
+		}
+	}
+
+	// Keep undeliverable events so they can be inspected or re-sent by hand
+	private writeDeadLetter(hook: WebhookConfig, body: string, error: string, attempts: number) {
+		const entry = {
+			failedAt: Date.now(),
+			webhook: hook.name || hook.url,
+			url: hook.url,
+			attempts: attempts,
+			error: error,
+			body: JSON.parse(body),
+		};
+		try {
+			fs.ensureDirSync(path.dirname(this.deadLetterFile));
+			fs.appendFileSync(this.deadLetterFile, JSON.stringify(entry) + "\n");
+		} catch (writeError) {
+			this.log.error(`Webhooks: Failed to write dead letter to ${this.deadLetterFile}:`, writeError);
+		}
+	}
+}
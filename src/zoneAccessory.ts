@@ -0,0 +1,186 @@
+import { CharacteristicValue, PlatformAccessory, Service } from "homebridge";
+
+import { OlarmHomebridgePlatform } from "./platform";
+import { OlarmZone, OlarmZoneState, OlarmZoneType } from "./types";
+
+// Subtype of the optional bypass switch, so it can live next to the sensor service
+const BYPASS_SUBTYPE = "bypass";
+// Subtype of the optional alarm source sensor
+const ALARM_SOURCE_SUBTYPE = "alarmSource";
+
+/**
+ * Zone Accessory
+ * Exposes a single alarm panel zone as a ContactSensor (doors, windows)
+ * or a MotionSensor (PIRs), depending on the zone type, with an optional
+ * "Bypass" switch to bypass a faulty sensor before arming and an optional
+ * "Alarm" occupancy sensor that is on while this zone is what triggered an alarm.
+ */
+export class OlarmZonePlatformAccessory {
+	private service: Service;
+	private bypassService: Service | undefined;
+	private alarmSourceService: Service | undefined;
+	private zoneState: OlarmZoneState;
+	private alarmSource: boolean;
+
+	constructor(
+		private readonly platform: OlarmHomebridgePlatform,
+		private readonly accessory: PlatformAccessory<Record<string, any>>
+	) {
+		const zone = this.accessory.context.zone as OlarmZone;
+		this.zoneState = zone.zoneState ?? OlarmZoneState.Closed;
+		this.alarmSource = zone.alarmSource ?? false;
+
+		this.platform.log.debug(`Initializing zone accessory: ${this.accessory.displayName}, type: ${zone.zoneType}, initial state: ${this.zoneState}`);
+
+		// set accessory information
+		this.accessory
+			.getService(this.platform.Service.AccessoryInformation)!
+			.setCharacteristic(this.platform.Characteristic.Manufacturer, "Olarm")
+			.setCharacteristic(this.platform.Characteristic.Model, "Olarm Zone")
+			.setCharacteristic(
+				this.platform.Characteristic.SerialNumber,
+				`${zone.deviceId}-Z${zone.zoneNumber}`
+			);
+
+		// Remove the sensor service of the other type in case the zone type was changed in config
+		const isMotion = zone.zoneType === OlarmZoneType.Motion;
+		const staleService = this.accessory.getService(
+			isMotion ? this.platform.Service.ContactSensor : this.platform.Service.MotionSensor
+		);
+		if (staleService) {
+			this.platform.log.info(`[${this.accessory.displayName}] Zone type changed to ${zone.zoneType}, replacing sensor service.`);
+			this.accessory.removeService(staleService);
+		}
+
+		const serviceType = isMotion ? this.platform.Service.MotionSensor : this.platform.Service.ContactSensor;
+		this.service =
+			this.accessory.getService(serviceType) ||
+			this.accessory.addService(serviceType, this.accessory.displayName);
+
+		this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName);
+
+		if (isMotion) {
+			this.service
+				.getCharacteristic(this.platform.Characteristic.MotionDetected)
+				.onGet(this.handleMotionDetectedGet.bind(this));
+		} else {
+			this.service
+				.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+				.onGet(this.handleContactSensorStateGet.bind(this));
+		}
+
+		const existingBypassService = this.accessory.getServiceById(this.platform.Service.Switch, BYPASS_SUBTYPE);
+		if (this.platform.config.exposeZoneBypass) {
+			this.bypassService =
+				existingBypassService ||
+				this.accessory.addService(this.platform.Service.Switch, `${this.accessory.displayName} Bypass`, BYPASS_SUBTYPE);
+			this.bypassService
+				.getCharacteristic(this.platform.Characteristic.On)
+				.onGet(this.handleBypassGet.bind(this))
+				.onSet(this.handleBypassSet.bind(this));
+		} else if (existingBypassService) {
+			this.accessory.removeService(existingBypassService);
+		}
+
+		const existingAlarmSourceService = this.accessory.getServiceById(this.platform.Service.OccupancySensor, ALARM_SOURCE_SUBTYPE);
+		if (this.platform.config.exposeAlarmSource) {
+			this.alarmSourceService =
+				existingAlarmSourceService ||
+				this.accessory.addService(this.platform.Service.OccupancySensor, `${this.accessory.displayName} Alarm`, ALARM_SOURCE_SUBTYPE);
+			this.alarmSourceService
+				.getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+				.onGet(this.handleAlarmSourceGet.bind(this));
+		} else if (existingAlarmSourceService) {
+			this.accessory.removeService(existingAlarmSourceService);
+		}
+
+		this.updateCharacteristics();
+	}
+
+	private isMotion(): boolean {
+		return (this.accessory.context.zone as OlarmZone).zoneType === OlarmZoneType.Motion;
+	}
+
+	// A bypassed zone is reported as closed/no motion, the panel ignores it anyway
+	private isActive(): boolean {
+		return this.zoneState === OlarmZoneState.Active;
+	}
+
+	private updateCharacteristics() {
+		if (this.isMotion()) {
+			this.service.updateCharacteristic(this.platform.Characteristic.MotionDetected, this.isActive());
+		} else {
+			this.service.updateCharacteristic(
+				this.platform.Characteristic.ContactSensorState,
+				this.convertToContactSensorState()
+			);
+		}
+		this.bypassService?.updateCharacteristic(this.platform.Characteristic.On, this.isBypassed());
+		this.alarmSourceService?.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, this.convertToOccupancyDetected());
+	}
+
+	private convertToOccupancyDetected(): CharacteristicValue {
+		return this.alarmSource
+			? this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+			: this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+	}
+
+	private isBypassed(): boolean {
+		return this.zoneState === OlarmZoneState.Bypassed;
+	}
+
+	// --- Method called by the platform when MQTT state changes ---
+	public updateStateFromExternal(zone: OlarmZone) {
+		if (zone.zoneState !== this.zoneState) {
+			this.platform.log.debug(`[${this.accessory.displayName}] Zone state changed: ${this.zoneState} -> ${zone.zoneState}`);
+		}
+		this.zoneState = zone.zoneState;
+		this.alarmSource = zone.alarmSource ?? false;
+		this.updateCharacteristics();
+	}
+
+	private convertToContactSensorState(): CharacteristicValue {
+		return this.isActive()
+			? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+			: this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+	}
+
+	async handleContactSensorStateGet(): Promise<CharacteristicValue> {
+		return this.convertToContactSensorState();
+	}
+
+	async handleMotionDetectedGet(): Promise<CharacteristicValue> {
+		return this.isActive();
+	}
+
+	async handleAlarmSourceGet(): Promise<CharacteristicValue> {
+		return this.convertToOccupancyDetected();
+	}
+
+	async handleBypassGet(): Promise<CharacteristicValue> {
+		return this.isBypassed();
+	}
+
+	async handleBypassSet(value: CharacteristicValue) {
+		const bypass = value as boolean;
+		if (bypass === this.isBypassed()) {
+			return;
+		}
+
+		const zone = this.accessory.context.zone as OlarmZone;
+		this.platform.log.info(`[${this.accessory.displayName}] SET Bypass: ${bypass ? "bypassing" : "unbypassing"} zone ${zone.zoneNumber}`);
+
+		let success = false;
+		try {
+			success = await this.platform.olarm!.setZoneBypass(zone, bypass);
+		} catch (error) {
+			this.platform.log.error(`[${this.accessory.displayName}] Error sending bypass command:`, error);
+		}
+		if (!success) {
+			this.platform.log.error(`[${this.accessory.displayName}] Failed to ${bypass ? "bypass" : "unbypass"} zone ${zone.zoneNumber}.`);
+			// Revert the switch, the next alarmPayload would do the same
+			setImmediate(() => this.bypassService?.updateCharacteristic(this.platform.Characteristic.On, this.isBypassed()));
+			throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+		}
+	}
+}
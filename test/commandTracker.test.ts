@@ -0,0 +1,72 @@
+import { strict as assert } from "assert";
+import { afterEach, describe, it } from "node:test";
+import { CommandResult, CommandTracker } from "../src/commandTracker";
+import { OlarmAreaAction, OlarmAreaState } from "../src/types";
+import { createArea, createLogger } from "./helpers";
+
+describe("CommandTracker", () => {
+	let tracker: CommandTracker;
+
+	afterEach(() => tracker.clear());
+
+	it("confirms a command once the area reports the expected state", async () => {
+		tracker = new CommandTracker(createLogger(), 1000);
+		const confirmation = tracker.track(createArea(1, OlarmAreaState.Disarmed), OlarmAreaAction.Arm, 4);
+		tracker.processPayload("device-1", 5, [createArea(1, OlarmAreaState.Disarmed)]);
+		assert.ok(tracker.get("device-1", 1), "still pending before the area arms");
+		tracker.processPayload("device-1", 5, [createArea(1, OlarmAreaState.Armed)]);
+		assert.equal(await confirmation, CommandResult.Confirmed);
+		assert.equal(tracker.get("device-1", 1), undefined);
+	});
+
+	it("confirms a disarm when the area reports not ready", async () => {
+		tracker = new CommandTracker(createLogger(), 1000);
+		const confirmation = tracker.track(createArea(1, OlarmAreaState.Armed), OlarmAreaAction.Disarm, null);
+		tracker.processPayload("device-1", null, [createArea(1, OlarmAreaState.NotReady)]);
+		assert.equal(await confirmation, CommandResult.Confirmed);
+	});
+
+	it("ignores payloads of other devices and areas", () => {
+		tracker = new CommandTracker(createLogger(), 1000);
+		tracker.track(createArea(1, OlarmAreaState.Disarmed), OlarmAreaAction.Arm, null);
+		tracker.processPayload("device-2", 1, [createArea(1, OlarmAreaState.Armed, "device-2")]);
+		tracker.processPayload("device-1", 1, [createArea(2, OlarmAreaState.Armed)]);
+		assert.ok(tracker.get("device-1", 1));
+	});
+
+	it("rejects an arm the panel acknowledged while the area is not ready", async () => {
+		tracker = new CommandTracker(createLogger(), 1000);
+		const confirmation = tracker.track(createArea(1, OlarmAreaState.NotReady), OlarmAreaAction.Arm, 4);
+		// Not acknowledged yet, the not ready state is the one from before the command
+		tracker.processPayload("device-1", 4, [createArea(1, OlarmAreaState.NotReady)]);
+		assert.ok(tracker.get("device-1", 1));
+		tracker.processPayload("device-1", 5, [createArea(1, OlarmAreaState.NotReady)]);
+		await assert.rejects(confirmation, /area is not ready/);
+	});
+
+	it("rejects a command that is not confirmed in time", async () => {
+		tracker = new CommandTracker(createLogger(), 20);
+		const confirmation = tracker.track(createArea(1, OlarmAreaState.Disarmed), OlarmAreaAction.Stay, null);
+		await assert.rejects(confirmation, /did not confirm "stay"/);
+		assert.equal(tracker.get("device-1", 1), undefined);
+	});
+
+	it("resolves an earlier command for the same area as superseded", async () => {
+		tracker = new CommandTracker(createLogger(), 1000);
+		const first = tracker.track(createArea(1, OlarmAreaState.Disarmed), OlarmAreaAction.Arm, null);
+		const second = tracker.track(createArea(1, OlarmAreaState.Disarmed), OlarmAreaAction.Stay, null);
+		assert.equal(await first, CommandResult.Superseded);
+		tracker.processPayload("device-1", null, [createArea(1, OlarmAreaState.ArmedStay)]);
+		assert.equal(await second, CommandResult.Confirmed);
+	});
+
+	it("rejects cancelled commands", async () => {
+		tracker = new CommandTracker(createLogger(), 1000);
+		const first = tracker.track(createArea(1, OlarmAreaState.Disarmed), OlarmAreaAction.Arm, null);
+		const second = tracker.track(createArea(2, OlarmAreaState.Disarmed), OlarmAreaAction.Arm, null);
+		tracker.cancel("device-1", 1, new Error("not sent"));
+		await assert.rejects(first, /not sent/);
+		tracker.cancelDevice("device-1", new Error("device removed"));
+		await assert.rejects(second, /device removed/);
+	});
+});
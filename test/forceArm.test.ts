@@ -0,0 +1,191 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { MqttClient } from "mqtt";
+import { Olarm } from "../src/olarm";
+import { OlarmAreaAction, ZoneConfig } from "../src/types";
+import { createLogger, wait } from "./helpers";
+
+const DEVICE_ID = "device-1";
+
+/**
+ * Stands in for the MQTT connection to a panel with two areas. Zones 1-2 belong to
+ * area 1, zones 3-4 to area 2. Commands are recorded and answered with a new status
+ * payload unless a test overrides how the panel handles them.
+ */
+class FakePanel {
+	public commands: (string | number)[][] = [];
+	public areas = ["disarm", "disarm"];
+	public zones = ["c", "c", "c", "c"];
+	public failPublish: (data: (string | number)[]) => boolean = () => false;
+	public handleCommand: (data: (string | number)[]) => void = (data) => this.defaultHandleCommand(data);
+	private cmdRecv = 1;
+	private openZones = new Set<number>();
+
+	constructor(private readonly olarm: () => Olarm) {}
+
+	public get client(): MqttClient {
+		return {
+			connected: true,
+			publish: (topic: string, message: string, options: unknown, callback: (error?: Error) => void) => {
+				const data: (string | number)[] = JSON.parse(message).data;
+				if (this.failPublish(data)) {
+					callback(new Error("publish failed"));
+					return;
+				}
+				this.commands.push(data);
+				callback();
+				setImmediate(() => {
+					this.cmdRecv++;
+					this.handleCommand(data);
+					this.report();
+				});
+			},
+		} as unknown as MqttClient;
+	}
+
+	public openZone(zoneNumber: number) {
+		this.openZones.add(zoneNumber);
+		this.zones[zoneNumber - 1] = "a";
+		this.areas[zoneNumber <= 2 ? 0 : 1] = "notready";
+		this.report();
+	}
+
+	public report() {
+		this.olarm().processMqttMessage(DEVICE_ID, "so/app/v1/1", JSON.stringify({
+			type: "alarmPayload",
+			data: { areas: this.areas, zones: this.zones, cmdRecv: this.cmdRecv },
+		}));
+	}
+
+	public sent(action: string, index: number): boolean {
+		return this.commands.some(([a, i]) => a === action && i === index);
+	}
+
+	private defaultHandleCommand([action, index]: (string | number)[]) {
+		const number = Number(index);
+		switch (action) {
+			case "zone-bypass":
+				this.zones[number - 1] = "b";
+				break;
+			case "zone-unbypass":
+				this.zones[number - 1] = this.openZones.has(number) ? "a" : "c";
+				break;
+			case "arm":
+				this.areas[number - 1] = "arm";
+				break;
+			case "disarm":
+				this.areas[number - 1] = "disarm";
+				break;
+		}
+		for (const areaNumber of [1, 2]) {
+			const zones = areaNumber === 1 ? [1, 2] : [3, 4];
+			if (this.areas[areaNumber - 1] !== "arm") {
+				this.areas[areaNumber - 1] = zones.some(z => this.zones[z - 1] === "a") ? "notready" : "disarm";
+			}
+		}
+	}
+}
+
+function setup(zoneConfigs: ZoneConfig[] = [
+	{ zoneNumber: 1, areas: [1] },
+	{ zoneNumber: 2, areas: [1] },
+	{ zoneNumber: 3, areas: [2] },
+	{ zoneNumber: 4, areas: [2] },
+]) {
+	let olarm: Olarm;
+	const panel = new FakePanel(() => olarm);
+	olarm = new Olarm({
+		devices: [{ id: DEVICE_ID, IMEI: "1" }],
+		log: createLogger(),
+		mqttClients: new Map([[DEVICE_ID, panel.client]]),
+		areaConfigs: [{ areaNumber: 1, forceArm: true }],
+		zoneConfigs: zoneConfigs,
+		commandTimeout: 600,
+		onStateUpdate: () => undefined,
+	});
+	panel.report();
+	const area = () => olarm.getAreas().find(a => a.areaNumber === 1)!;
+	return { olarm, panel, area };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error("Timed out waiting for condition");
+		}
+		await wait(10);
+	}
+}
+
+describe("Force arm", () => {
+	it("bypasses only the open zones of the area, then arms", async () => {
+		const { olarm, panel, area } = setup();
+		panel.openZone(2);
+		panel.openZone(3);
+		assert.equal(await olarm.forceArmArea(area(), OlarmAreaAction.Arm), true);
+		await olarm.getAreaConfirmation(area());
+		assert.deepEqual(panel.commands, [["zone-bypass", 2], ["arm", 1]]);
+
+		// Disarming undoes the bypass
+		await olarm.setArea(area(), OlarmAreaAction.Disarm);
+		await olarm.getAreaConfirmation(area());
+		await waitFor(() => panel.sent("zone-unbypass", 2));
+		olarm.clearPendingCommands();
+	});
+
+	it("refuses when an open zone may belong to another area", async () => {
+		const { olarm, panel, area } = setup([]);
+		panel.openZone(2);
+		assert.deepEqual(olarm.getOpenZones(area()).unassigned.map(z => z.zoneNumber), [2]);
+		assert.equal(await olarm.forceArmArea(area(), OlarmAreaAction.Arm), false);
+		assert.deepEqual(panel.commands, []);
+	});
+
+	it("restores the bypasses when the panel rejects the arm", async () => {
+		const { olarm, panel, area } = setup();
+		panel.openZone(1);
+		panel.handleCommand = (data) => {
+			if (data[0] === "zone-bypass" || data[0] === "zone-unbypass") {
+				panel.zones[Number(data[1]) - 1] = data[0] === "zone-bypass" ? "b" : "a";
+			}
+			// The panel stays not ready whatever it is asked to do
+		};
+		assert.equal(await olarm.forceArmArea(area(), OlarmAreaAction.Arm), true);
+		await assert.rejects(olarm.getAreaConfirmation(area())!, /not ready/);
+		await waitFor(() => panel.sent("zone-unbypass", 1));
+	});
+
+	it("restores the bypasses when the arm is not confirmed in time", async () => {
+		const { olarm, panel, area } = setup();
+		panel.openZone(1);
+		panel.handleCommand = (data) => {
+			if (data[0] === "zone-bypass") {
+				panel.zones[Number(data[1]) - 1] = "b";
+				panel.areas[0] = "disarm";
+			}
+			// Arm commands get lost
+		};
+		assert.equal(await olarm.forceArmArea(area(), OlarmAreaAction.Arm), true);
+		await assert.rejects(olarm.getAreaConfirmation(area())!, /did not confirm/);
+		await waitFor(() => panel.sent("zone-unbypass", 1));
+	});
+
+	it("restores the bypasses when the arm cannot be sent", async () => {
+		const { olarm, panel, area } = setup();
+		panel.openZone(1);
+		panel.failPublish = (data) => data[0] === "arm";
+		assert.equal(await olarm.forceArmArea(area(), OlarmAreaAction.Arm), false);
+		await waitFor(() => panel.sent("zone-unbypass", 1));
+	});
+
+	it("restores a bypass that went through when the next one fails", async () => {
+		const { olarm, panel, area } = setup();
+		panel.openZone(1);
+		panel.openZone(2);
+		panel.failPublish = (data) => data[0] === "zone-bypass" && data[1] === 2;
+		assert.equal(await olarm.forceArmArea(area(), OlarmAreaAction.Arm), false);
+		await waitFor(() => panel.sent("zone-unbypass", 1));
+		assert.equal(panel.sent("arm", 1), false);
+	});
+});
@@ -0,0 +1,38 @@
+import { Logger } from "homebridge";
+import { HomeKitArmMode, OlarmArea, OlarmAreaAction, OlarmAreaState } from "../src/types";
+
+// A logger that drops everything
+export function createLogger(): Logger {
+	const noop = () => undefined;
+	return Object.assign(noop, {
+		prefix: "test",
+		info: noop,
+		success: noop,
+		warn: noop,
+		error: noop,
+		debug: noop,
+		log: noop,
+	}) as unknown as Logger;
+}
+
+export function createArea(areaNumber: number, areaState: OlarmAreaState, deviceId = "device-1"): OlarmArea {
+	return {
+		areaName: `Area ${areaNumber}`,
+		deviceId: deviceId,
+		areaNumber: areaNumber,
+		areaState: areaState,
+		hidden: false,
+		modes: {
+			[HomeKitArmMode.Home]: OlarmAreaAction.Stay,
+			[HomeKitArmMode.Away]: OlarmAreaAction.Arm,
+			[HomeKitArmMode.Night]: OlarmAreaAction.Sleep,
+		},
+		excludeFromAllAreas: [],
+		forceArm: false,
+		alarmZones: [],
+	};
+}
+
+export function wait(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,99 @@
+import { strict as assert } from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import { Olarm } from "../src/olarm";
+import { RestApi } from "../src/restApi";
+import { createLogger } from "./helpers";
+
+const API_KEY = "rest-api-key";
+
+// A port nothing listens on right now
+async function getFreePort(): Promise<number> {
+	const server = http.createServer();
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const port = (server.address() as AddressInfo).port;
+	await new Promise((resolve) => server.close(resolve));
+	return port;
+}
+
+describe("REST API", () => {
+	let api: RestApi;
+	let baseUrl: string;
+
+	before(async () => {
+		const olarm = new Olarm({
+			devices: [{ id: "device-1", IMEI: "1" }],
+			log: createLogger(),
+			mqttClients: new Map(),
+			areaConfigs: [{ areaNumber: 2, hidden: true }],
+			onStateUpdate: () => undefined,
+		});
+		// Area 1 is not ready because zone 1 is open
+		olarm.processMqttMessage("device-1", "so/app/v1/1", JSON.stringify({
+			type: "alarmPayload",
+			data: { areas: ["notready", "disarm"], zones: ["a", "c"] },
+		}));
+		const port = await getFreePort();
+		api = new RestApi({ log: createLogger(), olarm: olarm, apiKey: API_KEY, host: "127.0.0.1", port: port });
+		await api.start();
+		baseUrl = `http://127.0.0.1:${port}`;
+	});
+
+	after(() => {
+		api.stop();
+	});
+
+	function request(method: string, path: string, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request(`${baseUrl}${path}`, { method: method, headers: headers }, (res) => {
+				let body = "";
+				res.on("data", (chunk) => body += chunk);
+				res.on("end", () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(body) }));
+			});
+			req.on("error", reject);
+			req.end();
+		});
+	}
+
+	it("rejects requests without an API key", async () => {
+		const response = await request("GET", "/areas");
+		assert.equal(response.status, 401);
+	});
+
+	it("rejects a wrong API key", async () => {
+		assert.equal((await request("GET", "/areas", { "X-API-Key": "wrong" })).status, 401);
+		assert.equal((await request("GET", "/areas", { "Authorization": `Bearer ${API_KEY}x` })).status, 401);
+		assert.equal((await request("GET", "/areas", { "Authorization": API_KEY })).status, 401);
+	});
+
+	it("accepts the API key as a header or bearer token", async () => {
+		const byHeader = await request("GET", "/areas", { "X-API-Key": API_KEY });
+		assert.equal(byHeader.status, 200);
+		assert.deepEqual(byHeader.body.map((area: { areaNumber: number }) => area.areaNumber), [1]);
+		const byBearer = await request("GET", "/devices", { "Authorization": `Bearer ${API_KEY}` });
+		assert.equal(byBearer.status, 200);
+		assert.deepEqual(byBearer.body, [{ id: "device-1", IMEI: "1", name: null }]);
+	});
+
+	it("does not control hidden areas", async () => {
+		const response = await request("POST", "/areas/device-1/2/arm", { "X-API-Key": API_KEY });
+		assert.equal(response.status, 404);
+	});
+
+	it("refuses to arm a not ready area without force arm", async () => {
+		const response = await request("POST", "/areas/device-1/1/arm", { "X-API-Key": API_KEY });
+		assert.equal(response.status, 409);
+		assert.match(response.body.error, /not ready/);
+	});
+
+	it("answers a malformed path with 400", async () => {
+		const response = await request("POST", "/areas/%E0/1/arm", { "X-API-Key": API_KEY });
+		assert.equal(response.status, 400);
+	});
+
+	it("rejects unknown actions", async () => {
+		const response = await request("POST", "/areas/device-1/1/open", { "X-API-Key": API_KEY });
+		assert.equal(response.status, 400);
+	});
+});
@@ -0,0 +1,149 @@
+import { strict as assert } from "assert";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+import type { Tokens } from "../src/auth";
+import { getLegacyTokensFilePath, TokenStore } from "../src/tokenStore";
+import { createLogger, wait } from "./helpers";
+
+const TOKENS: Tokens = {
+	userIndex: 1,
+	userId: "user-1",
+	accessToken: "access-secret",
+	refreshToken: "refresh-secret",
+	tokenExpiration: 1700000000000,
+};
+
+describe("TokenStore", () => {
+	let directory: string;
+	let fileNumber = 0;
+	const nextFile = () => path.join(directory, `tokens-${++fileNumber}.json`);
+
+	before(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), "olarm-test-"));
+	});
+
+	after(async () => {
+		await fs.remove(directory);
+	});
+
+	it("stores tokens in plain text without an encryption key", async () => {
+		const filePath = nextFile();
+		const store = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" });
+		await store.save(TOKENS);
+		assert.deepEqual(await store.load(), TOKENS);
+		assert.match(await fs.readFile(filePath, "utf8"), /refresh-secret/);
+	});
+
+	it("encrypts tokens with the encryption key", async () => {
+		const filePath = nextFile();
+		const store = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com", encryptionKey: "passphrase" });
+		await store.save(TOKENS);
+		const contents = await fs.readFile(filePath, "utf8");
+		assert.doesNotMatch(contents, /secret/);
+		assert.equal(JSON.parse(contents).encrypted, true);
+		assert.deepEqual(await store.load(), TOKENS);
+	});
+
+	it("does not return tokens for a wrong or missing key", async () => {
+		const filePath = nextFile();
+		await new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com", encryptionKey: "passphrase" }).save(TOKENS);
+		const wrongKey = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com", encryptionKey: "other" });
+		assert.equal(await wrongKey.load(), null);
+		const noKey = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" });
+		assert.equal(await noKey.load(), null);
+	});
+
+	it("does not return the tokens of another account", async () => {
+		const filePath = nextFile();
+		await new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" }).save(TOKENS);
+		assert.equal(await new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "b@example.com" }).load(), null);
+	});
+
+	it("runs one update at a time across stores sharing the file", async () => {
+		const filePath = nextFile();
+		const stores = [1, 2, 3].map(() => new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" }));
+		let running = 0;
+		let overlapped = false;
+		const seen: (string | null | undefined)[] = [];
+		await Promise.all(stores.map((store, i) => store.update(async (stored) => {
+			running++;
+			overlapped = overlapped || running > 1;
+			seen.push(stored?.refreshToken);
+			await wait(50);
+			running--;
+			return { ...TOKENS, refreshToken: `refresh-${i}` };
+		})));
+		assert.equal(overlapped, false);
+		// Every update read what the one before it wrote
+		assert.equal(seen[0], undefined);
+		assert.equal(new Set(seen).size, 3);
+		assert.equal(await fs.pathExists(`${filePath}.lock`), false);
+	});
+
+	it("leaves the file alone when an update returns null", async () => {
+		const filePath = nextFile();
+		const store = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" });
+		await store.save(TOKENS);
+		await store.update(async () => null);
+		assert.deepEqual(await store.load(), TOKENS);
+	});
+
+	it("takes over a stale lock exactly once", async () => {
+		const filePath = nextFile();
+		const lockPath = `${filePath}.lock`;
+		await fs.writeFile(lockPath, "crashed");
+		const old = new Date(Date.now() - 60 * 1000);
+		await fs.utimes(lockPath, old, old);
+
+		const stores = [1, 2, 3].map(() => new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" }));
+		let running = 0;
+		let overlapped = false;
+		await Promise.all(stores.map((store) => store.update(async () => {
+			running++;
+			overlapped = overlapped || running > 1;
+			await wait(150);
+			running--;
+			return TOKENS;
+		})));
+		assert.equal(overlapped, false);
+		assert.equal(await fs.pathExists(lockPath), false);
+	});
+
+	it("keeps a fresh lock of another process", async () => {
+		const filePath = nextFile();
+		const lockPath = `${filePath}.lock`;
+		await fs.writeFile(lockPath, "other-process");
+		const store = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com" });
+		let saved = false;
+		const saving = store.save(TOKENS).then(() => {
+			saved = true;
+		});
+		await wait(300);
+		assert.equal(saved, false);
+		assert.equal(await fs.readFile(lockPath, "utf8"), "other-process");
+		await fs.remove(lockPath);
+		await saving;
+		assert.deepEqual(await store.load(), TOKENS);
+	});
+
+	it("moves the legacy tokens.json into the encrypted file and deletes it", async () => {
+		const legacyDirectory = path.join(directory, "legacy");
+		await fs.ensureDir(legacyDirectory);
+		const legacyFilePath = path.join(legacyDirectory, path.basename(getLegacyTokensFilePath()));
+		assert.equal(path.basename(legacyFilePath), "tokens.json");
+		await fs.writeJSON(legacyFilePath, TOKENS);
+
+		const filePath = nextFile();
+		const store = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com", legacyFilePath: legacyFilePath, encryptionKey: "passphrase" });
+		assert.deepEqual(await store.load(), TOKENS);
+		assert.equal(await fs.pathExists(legacyFilePath), false);
+		assert.equal(JSON.parse(await fs.readFile(filePath, "utf8")).encrypted, true);
+		assert.doesNotMatch(await fs.readFile(filePath, "utf8"), /secret/);
+
+		// Loaded from the new file from now on
+		const reloaded = new TokenStore({ log: createLogger(), filePath: filePath, userEmailPhone: "a@example.com", legacyFilePath: legacyFilePath, encryptionKey: "passphrase" });
+		assert.deepEqual(await reloaded.load(), TOKENS);
+	});
+});
@@ -0,0 +1,81 @@
+import { strict as assert } from "assert";
+import { createHmac } from "crypto";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+import { OlarmAreaState, OlarmEvent, OlarmEventType } from "../src/types";
+import { WEBHOOK_SIGNATURE_HEADER, WebhookDispatcher, getWebhookEventName } from "../src/webhooks";
+import { createLogger } from "./helpers";
+
+interface ReceivedRequest {
+	headers: http.IncomingHttpHeaders;
+	body: string;
+}
+
+const ARMED: OlarmEvent = {
+	timestamp: 1700000000000,
+	type: OlarmEventType.Area,
+	deviceId: "device-1",
+	areaNumber: 1,
+	name: "House",
+	state: OlarmAreaState.Armed,
+	previousState: OlarmAreaState.Disarmed,
+	source: "homebridge",
+};
+
+describe("Webhooks", () => {
+	let server: http.Server;
+	let url: string;
+	let waiting: ((request: ReceivedRequest) => void) | null = null;
+
+	before(async () => {
+		server = http.createServer((req, res) => {
+			let body = "";
+			req.on("data", (chunk) => body += chunk);
+			req.on("end", () => {
+				res.end();
+				waiting?.({ headers: req.headers, body: body });
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+	});
+
+	after(() => {
+		server.close();
+	});
+
+	// Dispatch an event and resolve with the request the webhook receives
+	function deliver(secret?: string): Promise<ReceivedRequest> {
+		const dispatcher = new WebhookDispatcher({
+			log: createLogger(),
+			webhooks: [{ url: url, secret: secret }],
+			deadLetterFile: path.join(os.tmpdir(), "olarm-test-dead-letters.jsonl"),
+		});
+		const received = new Promise<ReceivedRequest>((resolve) => {
+			waiting = resolve;
+		});
+		dispatcher.dispatch(ARMED);
+		return received.finally(() => dispatcher.stop());
+	}
+
+	it("signs the body with HMAC-SHA256 of the secret", async () => {
+		const request = await deliver("webhook-secret");
+		const expected = createHmac("sha256", "webhook-secret").update(request.body).digest("hex");
+		assert.equal(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()], `sha256=${expected}`);
+		assert.deepEqual(JSON.parse(request.body), { event: "area.armed", ...ARMED });
+	});
+
+	it("does not sign without a secret", async () => {
+		const request = await deliver();
+		assert.equal(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()], undefined);
+	});
+
+	it("names area changes by what happened", () => {
+		assert.equal(getWebhookEventName({ ...ARMED, state: OlarmAreaState.Triggered }), "alarm.triggered");
+		assert.equal(getWebhookEventName({ ...ARMED, state: OlarmAreaState.NotReady, previousState: OlarmAreaState.Disarmed }), "area.notready");
+		assert.equal(getWebhookEventName({ ...ARMED, state: OlarmAreaState.NotReady, previousState: OlarmAreaState.Armed }), "area.disarmed");
+	});
+});